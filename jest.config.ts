@@ -10,7 +10,7 @@ const config: Config.InitialOptions = {
   },
   // Avoid instrumenting files that are serialized into browser context (page.evaluate),
   // which would inject coverage helpers into evaluated functions and break in-page execution.
-  coveragePathIgnorePatterns: ["<rootDir>/src/testers/ux-ui-tester.ts"],
+  coveragePathIgnorePatterns: ["<rootDir>/src/testers/ux-ui-tester.ts", "<rootDir>/src/utils/element-selector.ts"],
 };
 
 export default config;
@@ -0,0 +1,639 @@
+#!/usr/bin/env node
+import * as fs from 'fs';
+import * as path from 'path';
+import { UXUITester, ReportGenerator, UXReport } from '../testers/ux-ui-tester';
+import { getConfig, TestConfig, CONFIG_ENVIRONMENTS } from '../config/config.example';
+import { ReportConverter } from '../utils/report-converter';
+import { printVerdict, EXIT_CODES } from '../utils/threshold-gate';
+import { CrawlConfig } from '../utils/site-crawler';
+import { BROWSER_ENGINES, BrowserEngine } from '../utils/cross-browser';
+import { THROTTLING_PROFILES, ThrottlingProfileName } from '../utils/throttling';
+import { diffReports, printDiffSummary } from '../utils/report-diff';
+import { loadJourneyModule } from '../utils/user-journey';
+import { parseKeyValue } from '../utils/auth';
+import { appendRun, createHistoryEntry, readHistory, generateTrendHTML, detectGitSha } from '../utils/run-history';
+import { pendingSnapshots, reviewPaths, approveSnapshots, writeReviewPage } from '../utils/visual-review';
+
+/**
+ * UX Audit CLI - รันการทดสอบ UX/UI กับ URL ใดก็ได้โดยไม่ต้องแก้ source
+ *
+ * Usage:
+ *   ux-audit run <url> [--env staging] [--only performance,accessibility]
+ *                      [--out ./reports] [--format json,html,xlsx,docx] [--headed] [--browsers chromium,firefox,webkit]
+ *                      [--throttling slow-4g] [--cpu-slowdown 4] [--runs 5] [--concurrency 4]
+ *                      [--record-har ./site.har | --replay-har ./site.har]
+ *                      [--checks ./brand-checks.ts] [--disable-checks color-contrast,seo-basics]
+ *                      [--journey ./journeys/login.ts]
+ *                      [--visual ./visual-baselines] [--update-baselines]
+ *                      [--storage-state ./auth.json] [--http-credentials user:pass] [--header 'Name: value'] [--cookie name=value]
+ *                      [--crawl --max-pages 20 --max-depth 2 --include '/blog/*' --exclude '/admin/*' --sitemap]
+ *                      [--baseline ./previous/ux-report.json] [--label v1.2.0] [--history file | --no-history]
+ *   ux-audit diff <baseline.json> <current.json> [--out ./reports]
+ *   ux-audit trends [--history ./outputs/history/ux-history.jsonl]
+ *   ux-audit review [report.json]
+ *   ux-audit approve <report.json> [snapshot keys/globs... | --all] [--visual ./visual-baselines]
+ *
+ * Exit codes: 0 = budgets met, 1 = budget failed (thresholds), 2 = tool error
+ */
+
+// ========================================
+// Types
+// ========================================
+
+type TestToggle = keyof TestConfig['tests'];
+type ReportFormat = 'json' | 'html' | 'xlsx' | 'docx';
+
+export interface CliOptions {
+  command: 'run' | 'diff' | 'trends' | 'review' | 'approve' | 'help';
+  url?: string;
+  baselinePath?: string;
+  currentPath?: string;
+  reportPath?: string;
+  approveKeys?: string[];
+  approveAll?: boolean;
+  env: string;
+  only?: TestToggle[];
+  outDir: string;
+  formats: ReportFormat[];
+  headed: boolean;
+  browsers?: BrowserEngine[];
+  throttling?: TestConfig['throttling'];
+  performanceRuns?: number;
+  concurrency?: number;
+  har?: TestConfig['har'];
+  checks?: TestConfig['checks'];
+  journeyPath?: string;
+  visualBaselineDir?: string;
+  updateBaselines?: boolean;
+  auth?: TestConfig['auth'];
+  crawl?: CrawlConfig;
+  historyPath?: string;
+  label?: string;
+}
+
+const TEST_TOGGLES: TestToggle[] = [
+  'performance',
+  'visualDesign',
+  'navigation',
+  'readability',
+  'forms',
+  'interactive',
+  'responsive',
+  'accessibility',
+  'errorHandling',
+];
+
+const REPORT_FORMATS: ReportFormat[] = ['json', 'html', 'xlsx', 'docx'];
+
+const USAGE = `
+Usage: ux-audit run <url> [options]
+       ux-audit diff <baseline.json> <current.json> [--out <dir>]
+       ux-audit trends [--history <file>]
+       ux-audit review [report.json]
+       ux-audit approve <report.json> [<snapshot>... | --all] [--visual <dir>]
+
+Options:
+  --env <name>        Config preset: ${CONFIG_ENVIRONMENTS.join(' | ')} (default: production)
+  --only <tests>      Comma-separated tests to run: ${TEST_TOGGLES.join(', ')}
+  --out <dir>         Output directory (default: ./outputs/ux-report)
+  --format <list>     Comma-separated formats: ${REPORT_FORMATS.join(', ')} (default: json,html)
+  --headed            Show the browser window
+  --browsers <list>   Comma-separated engines: ${BROWSER_ENGINES.join(', ')} (default: chromium)
+  --throttling <name> Network/CPU profile (Chromium only): ${Object.keys(THROTTLING_PROFILES).join(', ')}
+  --cpu-slowdown <n>  CPU slowdown multiplier, overrides the profile (e.g. 4)
+  --runs <n>          Repeat the cold-cache performance measurement n times (median and p75)
+  --concurrency <n>   Audit up to n pages/devices/browsers at the same time (default: 1)
+  --record-har <file> Record all traffic of the audited pages into a HAR file
+  --replay-har <file> Replay responses from a HAR file without network access
+  --checks <modules>  Comma-separated modules exporting custom checks
+  --disable-checks <names>
+                      Comma-separated check names to skip (built-in or custom)
+  --journey <module>  Run the journey exported by a module (login, checkout, ...) and audit each checkpoint
+  --visual <dir>      Compare full-page and component screenshots with the approved baselines in <dir>
+  --update-baselines  Save this run's screenshots as the new baselines (after reviewing the changes)
+  --all               Approve: accept every changed or new snapshot of the report
+  --storage-state <file>
+                      Load cookies/localStorage from a Playwright storageState file
+  --http-credentials <user:pass>
+                      Basic auth credentials (use \${ENV_NAME} to read from the environment)
+  --header <'Name: value'>
+                      Extra request header, can be repeated
+  --cookie <name=value>
+                      Cookie for the audited site, can be repeated
+  --crawl             Crawl same-origin links from <url> and audit each page
+  --max-pages <n>     Crawl: maximum pages to audit (default: 20)
+  --max-depth <n>     Crawl: maximum link depth from <url> (default: 2)
+  --include <globs>   Crawl: only audit paths matching these globs, e.g. /blog/*
+  --exclude <globs>   Crawl: skip paths matching these globs
+  --sitemap           Crawl: also queue URLs from /sitemap.xml
+  --baseline <file>   Compare the run with a previous ux-report.json
+  --label <name>      Label stored with the run in the history (e.g. a release tag)
+  --history <file>    Run history JSONL (default: ./outputs/history/ux-history.jsonl)
+  --no-history        Do not record this run in the history
+  -h, --help          Show this help
+
+Exit codes:
+  ${EXIT_CODES.OK}  all thresholds met
+  ${EXIT_CODES.BUDGET_FAILED}  one or more thresholds breached
+  ${EXIT_CODES.TOOL_ERROR}  invalid arguments or the audit crashed
+`;
+
+// ========================================
+// Argument Parsing
+// ========================================
+
+function splitList(value: string | undefined, flag: string): string[] {
+  if (!value || value.startsWith('--')) {
+    throw new Error(`Missing value for ${flag}`);
+  }
+  return value.split(',').map(v => v.trim()).filter(v => v.length > 0);
+}
+
+// Values that may contain commas (headers, cookies, passwords)
+function requireValue(value: string | undefined, flag: string): string {
+  if (value === undefined || value.startsWith('--')) {
+    throw new Error(`Missing value for ${flag}`);
+  }
+  return value;
+}
+
+function parseCount(value: string | undefined, flag: string): number {
+  const n = parseInt(splitList(value, flag)[0], 10);
+  if (isNaN(n) || n < 0) {
+    throw new Error(`Invalid number for ${flag}: ${value}`);
+  }
+  return n;
+}
+
+export function parseArgs(argv: string[]): CliOptions {
+  const options: CliOptions = {
+    command: 'help',
+    env: 'production',
+    outDir: path.resolve('outputs/ux-report'),
+    formats: ['json', 'html'],
+    headed: false,
+    historyPath: path.resolve('outputs/history/ux-history.jsonl'),
+  };
+
+  // Any crawl option turns crawl mode on
+  const crawl = (): CrawlConfig => {
+    if (!options.crawl) {
+      options.crawl = { enabled: true, maxPages: 20, maxDepth: 2 };
+    }
+    return options.crawl;
+  };
+
+  const positionals: string[] = [];
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    switch (arg) {
+      case '--env': {
+        const env = splitList(argv[++i], arg)[0];
+        // A typo must not silently fall back to the production preset
+        if (!CONFIG_ENVIRONMENTS.includes(env)) {
+          throw new Error(`Unknown environment for --env: ${env} (expected ${CONFIG_ENVIRONMENTS.join(', ')})`);
+        }
+        options.env = env;
+        break;
+      }
+      case '--only': {
+        const only = splitList(argv[++i], arg);
+        const unknown = only.filter(t => !TEST_TOGGLES.includes(t as TestToggle));
+        if (unknown.length > 0) {
+          throw new Error(`Unknown test(s) for --only: ${unknown.join(', ')}`);
+        }
+        options.only = only as TestToggle[];
+        break;
+      }
+      case '--out':
+        options.outDir = path.resolve(splitList(argv[++i], arg)[0]);
+        break;
+      case '--format': {
+        const formats = splitList(argv[++i], arg);
+        const unknown = formats.filter(f => !REPORT_FORMATS.includes(f as ReportFormat));
+        if (unknown.length > 0) {
+          throw new Error(`Unknown format(s) for --format: ${unknown.join(', ')}`);
+        }
+        options.formats = formats as ReportFormat[];
+        break;
+      }
+      case '--headed':
+        options.headed = true;
+        break;
+      case '--browsers': {
+        const browsers = splitList(argv[++i], arg);
+        const unknown = browsers.filter(b => !BROWSER_ENGINES.includes(b as BrowserEngine));
+        if (unknown.length > 0) {
+          throw new Error(`Unknown browser(s) for --browsers: ${unknown.join(', ')}`);
+        }
+        options.browsers = browsers as BrowserEngine[];
+        break;
+      }
+      case '--throttling': {
+        const profile = splitList(argv[++i], arg)[0];
+        if (!Object.prototype.hasOwnProperty.call(THROTTLING_PROFILES, profile)) {
+          throw new Error(`Unknown throttling profile: ${profile}`);
+        }
+        options.throttling = { ...options.throttling, profile: profile as ThrottlingProfileName };
+        break;
+      }
+      case '--cpu-slowdown': {
+        const rate = parseCount(argv[++i], arg);
+        if (rate < 1) {
+          throw new Error(`Invalid number for ${arg}: ${rate}`);
+        }
+        options.throttling = { profile: options.throttling?.profile || 'none', cpuSlowdown: rate };
+        break;
+      }
+      case '--runs':
+        options.performanceRuns = Math.max(1, parseCount(argv[++i], arg));
+        break;
+      case '--concurrency':
+        options.concurrency = Math.max(1, parseCount(argv[++i], arg));
+        break;
+      case '--record-har':
+        options.har = { mode: 'record', path: path.resolve(splitList(argv[++i], arg)[0]) };
+        break;
+      case '--replay-har':
+        options.har = { mode: 'replay', path: path.resolve(splitList(argv[++i], arg)[0]) };
+        break;
+      case '--checks':
+        options.checks = { ...options.checks, modules: splitList(argv[++i], arg).map(m => path.resolve(m)) };
+        break;
+      case '--disable-checks':
+        options.checks = { ...options.checks, disable: splitList(argv[++i], arg) };
+        break;
+      case '--journey':
+        options.journeyPath = path.resolve(splitList(argv[++i], arg)[0]);
+        break;
+      case '--visual':
+        options.visualBaselineDir = path.resolve(requireValue(argv[++i], arg));
+        break;
+      case '--update-baselines':
+        options.updateBaselines = true;
+        break;
+      case '--all':
+        options.approveAll = true;
+        break;
+      case '--storage-state':
+        options.auth = { ...options.auth, storageState: path.resolve(splitList(argv[++i], arg)[0]) };
+        break;
+      case '--http-credentials': {
+        const [username, password] = parseKeyValue(requireValue(argv[++i], arg), ':');
+        options.auth = { ...options.auth, httpCredentials: { username, password } };
+        break;
+      }
+      case '--header': {
+        const [name, value] = parseKeyValue(requireValue(argv[++i], arg), ':');
+        options.auth = { ...options.auth, headers: { ...options.auth?.headers, [name]: value } };
+        break;
+      }
+      case '--cookie': {
+        const [name, value] = parseKeyValue(requireValue(argv[++i], arg), '=');
+        options.auth = { ...options.auth, cookies: [...(options.auth?.cookies || []), { name, value }] };
+        break;
+      }
+      case '--crawl':
+        crawl();
+        break;
+      case '--max-pages':
+        crawl().maxPages = parseCount(argv[++i], arg);
+        break;
+      case '--max-depth':
+        crawl().maxDepth = parseCount(argv[++i], arg);
+        break;
+      case '--include':
+        crawl().include = splitList(argv[++i], arg);
+        break;
+      case '--exclude':
+        crawl().exclude = splitList(argv[++i], arg);
+        break;
+      case '--sitemap':
+        crawl().useSitemap = true;
+        break;
+      case '--baseline':
+        options.baselinePath = path.resolve(splitList(argv[++i], arg)[0]);
+        break;
+      case '--label':
+        options.label = splitList(argv[++i], arg)[0];
+        break;
+      case '--history':
+        options.historyPath = path.resolve(splitList(argv[++i], arg)[0]);
+        break;
+      case '--no-history':
+        options.historyPath = undefined;
+        break;
+      case '-h':
+      case '--help':
+        return { ...options, command: 'help' };
+      default:
+        if (arg.startsWith('-')) {
+          throw new Error(`Unknown option: ${arg}`);
+        }
+        positionals.push(arg);
+    }
+  }
+
+  if (positionals[0] === 'run') {
+    const url = positionals[1];
+    if (!url) {
+      throw new Error('Missing <url> for run');
+    }
+    try {
+      new URL(url);
+    } catch (e) {
+      throw new Error(`Invalid URL: ${url}`);
+    }
+    options.command = 'run';
+    options.url = url;
+  } else if (positionals[0] === 'diff') {
+    if (positionals.length < 3) {
+      throw new Error('diff requires <baseline.json> and <current.json>');
+    }
+    options.command = 'diff';
+    options.baselinePath = path.resolve(positionals[1]);
+    options.currentPath = path.resolve(positionals[2]);
+  } else if (positionals[0] === 'trends') {
+    options.command = 'trends';
+  } else if (positionals[0] === 'review') {
+    options.command = 'review';
+    options.reportPath = positionals[1] ? path.resolve(positionals[1]) : path.join(options.outDir, 'ux-report.json');
+  } else if (positionals[0] === 'approve') {
+    if (!positionals[1]) {
+      throw new Error('approve requires <report.json>');
+    }
+    if (positionals.length < 3 && !options.approveAll) {
+      throw new Error('approve requires snapshot keys or --all');
+    }
+    options.command = 'approve';
+    options.reportPath = path.resolve(positionals[1]);
+    options.approveKeys = positionals.slice(2);
+  } else if (positionals.length > 0 && positionals[0] !== 'help') {
+    throw new Error(`Unknown command: ${positionals[0]}`);
+  }
+
+  return options;
+}
+
+// ========================================
+// Config & Report Output
+// ========================================
+
+export function buildConfig(options: CliOptions): TestConfig {
+  const base = getConfig(options.env);
+  const tests = { ...base.tests };
+  const visualRegression = options.visualBaselineDir
+    ? { ...base.visualRegression, enabled: true, baselineDir: options.visualBaselineDir }
+    : base.visualRegression;
+  if (options.updateBaselines && !visualRegression) {
+    throw new Error('--update-baselines needs --visual <dir> or visualRegression in the config');
+  }
+  if (options.only) {
+    TEST_TOGGLES.forEach(t => {
+      tests[t] = options.only!.includes(t);
+    });
+  }
+
+  return {
+    ...base,
+    url: options.url || base.url,
+    outputDir: options.outDir,
+    screenshotsDir: path.join(options.outDir, 'screenshots'),
+    browser: {
+      ...base.browser,
+      headless: !options.headed,
+      browsers: options.browsers || base.browser.browsers,
+    },
+    tests,
+    throttling: options.throttling || base.throttling,
+    performanceRuns: options.performanceRuns || base.performanceRuns,
+    concurrency: options.concurrency || base.concurrency,
+    har: options.har || base.har,
+    checks: options.checks ? {
+      modules: [...(base.checks?.modules || []), ...(options.checks.modules || [])],
+      disable: [...(base.checks?.disable || []), ...(options.checks.disable || [])],
+    } : base.checks,
+    journey: options.journeyPath ? loadJourneyModule(options.journeyPath) : base.journey,
+    auth: options.auth ? {
+      ...base.auth,
+      ...options.auth,
+      headers: options.auth.headers || base.auth?.headers ? { ...base.auth?.headers, ...options.auth.headers } : undefined,
+      cookies: options.auth.cookies || base.auth?.cookies ? [...(base.auth?.cookies || []), ...(options.auth.cookies || [])] : undefined,
+    } : base.auth,
+    crawl: options.crawl || base.crawl,
+    visualRegression: visualRegression && options.updateBaselines ? { ...visualRegression, updateBaselines: true } : visualRegression,
+  };
+}
+
+export async function writeReports(report: UXReport, outDir: string, formats: ReportFormat[]): Promise<string[]> {
+  fs.mkdirSync(outDir, { recursive: true });
+  const written: string[] = [];
+
+  // Excel/Word are converted from the JSON file, so it is always written
+  const jsonPath = path.join(outDir, 'ux-report.json');
+  fs.writeFileSync(jsonPath, JSON.stringify(report, null, 2));
+  written.push(jsonPath);
+
+  if (formats.includes('html')) {
+    const htmlPath = path.join(outDir, 'ux-report.html');
+    fs.writeFileSync(htmlPath, ReportGenerator.generateHTML(report));
+    written.push(htmlPath);
+    if (pendingSnapshots(report).length > 0) {
+      written.push(writeReviewPage(report, outDir));
+    }
+  }
+
+  if (formats.includes('xlsx')) {
+    const excelPath = path.join(outDir, 'ux-report.xlsx');
+    ReportConverter.convertToExcel(jsonPath, excelPath);
+    written.push(excelPath);
+  }
+
+  if (formats.includes('docx')) {
+    const wordPath = path.join(outDir, 'ux-report.docx');
+    await ReportConverter.convertToWord(jsonPath, wordPath);
+    written.push(wordPath);
+  }
+
+  return written;
+}
+
+function readReport(reportPath: string): UXReport {
+  return JSON.parse(fs.readFileSync(reportPath, 'utf-8'));
+}
+
+/**
+ * Regenerate the trend dashboard next to the history file
+ */
+function writeTrends(historyPath: string): string {
+  const trendsPath = path.join(path.dirname(historyPath), 'ux-trends.html');
+  fs.mkdirSync(path.dirname(trendsPath), { recursive: true });
+  fs.writeFileSync(trendsPath, generateTrendHTML(readHistory(historyPath)));
+  return trendsPath;
+}
+
+/**
+ * Print the snapshots waiting for review with their before/after/diff images
+ */
+function printPendingSnapshots(report: UXReport, reportDir: string): void {
+  const pending = pendingSnapshots(report);
+  if (pending.length === 0) {
+    console.log('✅ No changed snapshots to review');
+    return;
+  }
+
+  console.log(`🖼️  ${pending.length} snapshot(s) waiting for review:\n`);
+  pending.forEach(snapshot => {
+    const files = reviewPaths(snapshot, reportDir);
+    const change = snapshot.status === 'new'
+      ? 'new, no baseline'
+      : `changed, ${(snapshot.diffRatio * 100).toFixed(3)}% pixels${snapshot.sizeChanged ? ', size changed' : ''}`;
+    console.log(`  ${snapshot.key} (${change})`);
+    if (files.baseline) console.log(`     before: ${files.baseline}`);
+    console.log(`     after:  ${files.current}`);
+    if (files.diff) console.log(`     diff:   ${files.diff}`);
+  });
+}
+
+function writeDiff(report: UXReport, outDir: string): string {
+  fs.mkdirSync(outDir, { recursive: true });
+  const diffPath = path.join(outDir, 'ux-diff.json');
+  fs.writeFileSync(diffPath, JSON.stringify(report.diff, null, 2));
+  return diffPath;
+}
+
+// ========================================
+// Main Execution
+// ========================================
+
+export async function main(argv: string[]): Promise<number> {
+  let options: CliOptions;
+  try {
+    options = parseArgs(argv);
+  } catch (error) {
+    console.error(`❌ ${(error as Error).message}`);
+    console.error(USAGE);
+    return EXIT_CODES.TOOL_ERROR;
+  }
+
+  if (options.command === 'help') {
+    console.log(USAGE);
+    return EXIT_CODES.OK;
+  }
+
+  if (options.command === 'diff') {
+    try {
+      const current = readReport(options.currentPath!);
+      current.diff = diffReports(readReport(options.baselinePath!), current);
+      printDiffSummary(current.diff);
+      console.log(`📄 ${writeDiff(current, options.outDir)}`);
+      return EXIT_CODES.OK;
+    } catch (error) {
+      console.error('💥 Could not compare reports:', error);
+      return EXIT_CODES.TOOL_ERROR;
+    }
+  }
+
+  if (options.command === 'trends') {
+    if (!options.historyPath) {
+      console.error('❌ trends requires a history file');
+      return EXIT_CODES.TOOL_ERROR;
+    }
+    try {
+      console.log(`📄 ${writeTrends(options.historyPath)}`);
+      return EXIT_CODES.OK;
+    } catch (error) {
+      console.error('💥 Could not read the run history:', error);
+      return EXIT_CODES.TOOL_ERROR;
+    }
+  }
+
+  if (options.command === 'review') {
+    try {
+      const report = readReport(options.reportPath!);
+      const reportDir = path.dirname(options.reportPath!);
+      printPendingSnapshots(report, reportDir);
+      console.log(`\n📄 ${writeReviewPage(report, reportDir)}`);
+      return EXIT_CODES.OK;
+    } catch (error) {
+      console.error('💥 Could not read the report:', error);
+      return EXIT_CODES.TOOL_ERROR;
+    }
+  }
+
+  if (options.command === 'approve') {
+    try {
+      const report = readReport(options.reportPath!);
+      const reportDir = path.dirname(options.reportPath!);
+      const approved = approveSnapshots(report, reportDir, {
+        keys: options.approveKeys,
+        all: options.approveAll,
+        baselineDir: options.visualBaselineDir,
+      });
+      approved.forEach(snapshot => console.log(`💾 ${snapshot.key} → ${snapshot.baseline}`));
+      // Keep the report and review page in sync with the new baselines
+      fs.writeFileSync(options.reportPath!, JSON.stringify(report, null, 2));
+      writeReviewPage(report, reportDir);
+      console.log(`\n✅ Approved ${approved.length} snapshot(s), ${pendingSnapshots(report).length} still waiting for review`);
+      return EXIT_CODES.OK;
+    } catch (error) {
+      console.error(`❌ ${(error as Error).message}`);
+      return EXIT_CODES.TOOL_ERROR;
+    }
+  }
+
+  // Config errors (e.g. a broken journey module) are tool errors, not failed budgets
+  let config: TestConfig;
+  try {
+    config = buildConfig(options);
+  } catch (error) {
+    console.error(`❌ ${(error as Error).message}`);
+    return EXIT_CODES.TOOL_ERROR;
+  }
+  console.log(`🔎 Auditing ${config.url} (env: ${options.env})\n`);
+
+  try {
+    const tester = new UXUITester(config);
+    const report = await tester.runAllTests();
+    // Read the baseline before writing, since it may be the same file
+    if (options.baselinePath) {
+      report.diff = diffReports(readReport(options.baselinePath), report);
+    }
+    const written = await writeReports(report, config.outputDir, options.formats);
+    if (report.diff) {
+      written.push(writeDiff(report, config.outputDir));
+    }
+    if (options.historyPath) {
+      appendRun(options.historyPath, createHistoryEntry(report, { label: options.label, gitSha: detectGitSha() }));
+      written.push(options.historyPath, writeTrends(options.historyPath));
+    }
+
+    console.log('\n' + '═'.repeat(50));
+    console.log(`Overall Score: ${report.overallScore}/100`);
+    console.log(`Passed: ${report.results.filter(r => r.status === 'pass').length}, ` +
+      `Failed: ${report.results.filter(r => r.status === 'fail').length}, ` +
+      `Warnings: ${report.results.filter(r => r.status === 'warning').length}`);
+    console.log('═'.repeat(50));
+    written.forEach(file => console.log(`📄 ${file}`));
+
+    if (report.diff) printDiffSummary(report.diff);
+    if (report.verdict) {
+      printVerdict(report.verdict);
+      if (!report.verdict.passed) return EXIT_CODES.BUDGET_FAILED;
+    }
+    return EXIT_CODES.OK;
+  } catch (error) {
+    console.error('💥 Fatal error:', error);
+    return EXIT_CODES.TOOL_ERROR;
+  }
+}
+
+// Run if this is the main module
+if (require.main === module) {
+  main(process.argv.slice(2))
+    .then(code => process.exit(code))
+    .catch(error => {
+      console.error('💥 Fatal error:', error);
+      process.exit(EXIT_CODES.TOOL_ERROR);
+    });
+}
@@ -3,6 +3,20 @@
  * คัดลอกไฟล์นี้เป็น config.local.ts แล้วปรับแต่งตามต้องการ
  */
 
+import type { Page } from 'playwright';
+import type { BudgetKey } from '../utils/performance-budgets';
+
+// ค่า value ของ fill/select ใช้ ${ENV_NAME} เพื่ออ่านจาก environment variable ได้ (เช่น รหัสผ่าน)
+type JourneyStep =
+  | { action: 'goto'; url: string }                                  // relative กับ url ได้
+  | { action: 'click'; selector: string }
+  | { action: 'fill'; selector: string; value: string }
+  | { action: 'select'; selector: string; value: string }
+  | { action: 'press'; key: string; selector?: string }
+  | { action: 'waitFor'; selector?: string; url?: string; state?: 'attached' | 'detached' | 'visible' | 'hidden'; timeout?: number }
+  | { action: 'run'; name: string; fn: (page: Page) => Promise<void> }
+  | { action: 'checkpoint'; name: string };                         // ทดสอบสถานะของหน้า ณ จุดนี้
+
 export interface TestConfig {
   // URL ที่ต้องการทดสอบ
   url: string;
@@ -14,8 +28,14 @@ export interface TestConfig {
   // อุปกรณ์ที่ต้องการทดสอบ
   devices: Array<{
     name: string;
-    width: number;
-    height: number;
+    width?: number;            // ไม่ต้องระบุถ้าใช้ descriptor
+    height?: number;
+    descriptor?: string;       // ชื่ออุปกรณ์ของ Playwright เช่น 'iPhone 12', 'Pixel 5'
+    isMobile?: boolean;        // ค่าด้านล่างนี้ override ค่าจาก descriptor
+    hasTouch?: boolean;
+    deviceScaleFactor?: number;
+    userAgent?: string;
+    orientation?: 'portrait' | 'landscape';
   }>;
   
   // Timeouts
@@ -28,6 +48,19 @@ export interface TestConfig {
   browser: {
     headless: boolean;
     slowMo?: number; // ชะลอการทำงานเพื่อดูการทำงาน (ms)
+    browsers?: Array<'chromium' | 'firefox' | 'webkit'>; // engine ที่ต้องการทดสอบ (default: chromium)
+  };
+  
+  // จำนวนรอบการวัด performance (แต่ละรอบเปิด context ใหม่ cache ว่าง) รายงานค่า median และ p75
+  performanceRuns?: number;
+  
+  // จำนวนงานที่รันพร้อมกัน (หน้า × อุปกรณ์ × เบราว์เซอร์ แยก context กัน) default: 1 = รันทีละงาน
+  concurrency?: number;
+  
+  // จำลองความเร็วเครือข่าย/CPU ระหว่างทดสอบ (Chromium เท่านั้น)
+  throttling?: {
+    profile: 'none' | 'cable' | 'fast-3g' | 'slow-4g';
+    cpuSlowdown?: number;      // เช่น 4 = CPU ช้าลง 4 เท่า (override ค่าของ profile)
   };
   
   // ตัวเลือกการทดสอบ
@@ -54,6 +87,69 @@ export interface TestConfig {
     };
   };
   
+  // บันทึก HAR ระหว่างทดสอบ หรือเล่นซ้ำจาก HAR โดยไม่ใช้เครือข่าย
+  har?: {
+    mode: 'record' | 'replay';
+    path: string;                       // เช่น './outputs/har/site.har'
+    notFound?: 'abort' | 'fallback';    // replay: request ที่ไม่มีใน HAR (default: abort = offline)
+  };
+  
+  // งบประมาณ performance ตามประเภท resource (ถ้าไม่กำหนดจะไม่ตรวจ)
+  // key: document | script | css | image | font | xhr | media | other | total | third-party
+  budgets?: {
+    resourceSizes?: Partial<Record<BudgetKey, number>>;   // KB (transfer size)
+    requestCounts?: Partial<Record<BudgetKey, number>>;   // จำนวน requests
+    thirdPartyOrigins?: number;                           // จำนวน origin ภายนอกสูงสุด
+  };
+  
+  // การยืนยันตัวตน ใช้กับทุก browser context (หน้าหลัก, performance, responsive)
+  // ค่า string ใช้ ${ENV_NAME} เพื่ออ่านจาก environment variable ได้
+  auth?: {
+    storageState?: string;     // ไฟล์ storageState ของ Playwright (cookies + localStorage) เช่น './auth/staging.json'
+    httpCredentials?: {        // basic/digest auth
+      username: string;
+      password: string;
+    };
+    headers?: Record<string, string>;   // ส่งเฉพาะ request ไปยัง origin ของ url (ไม่ส่งให้ third-party)
+    cookies?: Array<{
+      name: string;
+      value: string;
+      domain?: string;         // ไม่ระบุ = domain ของ url
+      path?: string;
+      expires?: number;        // unix time (วินาที)
+      httpOnly?: boolean;
+      secure?: boolean;
+      sameSite?: 'Strict' | 'Lax' | 'None';
+    }>;
+  };
+  
+  // Journey ก่อน/ระหว่างการทดสอบ เช่น login แล้วทดสอบ dashboard (แต่ละ checkpoint ได้รายงานแยก)
+  // ถ้าไม่มี checkpoint จะทดสอบสถานะสุดท้ายของ journey
+  journey?: {
+    name: string;
+    steps: JourneyStep[];
+  };
+  
+  // Check เพิ่มเติมของทีม (เช่น กฎเฉพาะของแบรนด์) และการปิด check ตามชื่อ
+  checks?: {
+    modules?: string[];        // path ของ module ที่ export UXCheck หรือ UXCheck[] (relative กับ working directory)
+    disable?: string[];        // ชื่อ check ที่ไม่ต้องรัน เช่น 'color-contrast', 'seo-basics'
+  };
+  
+  // Visual regression: เทียบ screenshot ของแต่ละอุปกรณ์กับ baseline ที่อนุมัติแล้ว
+  visualRegression?: {
+    enabled: boolean;
+    baselineDir: string;           // ที่เก็บ baseline (commit ลง git ได้) แยกตาม path/browser/device
+    threshold?: number;            // ความต่างของสีต่อ pixel 0-1 (default 0.1 ยิ่งน้อยยิ่งเข้ม)
+    maxDiffRatio?: number;         // สัดส่วน pixel ที่ต่างได้ก่อนถือว่า fail (default 0.001 = 0.1%)
+    includeAntiAliasing?: boolean; // นับ pixel ขอบตัวอักษร/เส้น (anti-aliasing) ว่าต่างด้วย (default false)
+    fullPage?: boolean;            // ถ่ายทั้งหน้า (default true) — false = เฉพาะ viewport
+    components?: Array<{ name: string; selector: string }>;   // ถ่ายเฉพาะส่วน เช่น { name: 'header', selector: 'header' }
+    mask?: string[];               // selector ที่ถูกปิดทับก่อนถ่าย เช่น วันที่, โฆษณา, carousel
+    ignoreRegions?: Array<{ x: number; y: number; width: number; height: number }>;   // พื้นที่ที่ไม่นำมาเทียบ (CSS px)
+    updateBaselines?: boolean;     // เขียนภาพปัจจุบันทับ baseline (ใช้หลังตรวจแล้วว่าการเปลี่ยนแปลงถูกต้อง)
+  };
+  
   // การแจ้งเตือน
   notifications: {
     enabled: boolean;
@@ -74,6 +170,16 @@ export interface TestConfig {
       };
     };
   };
+  
+  // Crawl หลายหน้าใน origin เดียวกัน (ถ้าไม่กำหนดจะทดสอบเฉพาะ url)
+  crawl?: {
+    enabled: boolean;
+    maxPages: number;          // จำนวนหน้าสูงสุด
+    maxDepth: number;          // ความลึกของลิงก์จากหน้าแรก (0 = เฉพาะหน้าแรก)
+    include?: string[];        // glob ของ path เช่น '/blog/*'
+    exclude?: string[];        // glob ของ path ที่ไม่ต้องการทดสอบ
+    useSitemap?: boolean;      // อ่าน /sitemap.xml เพิ่มเติม
+  };
 }
 
 // ==============================
@@ -87,7 +193,7 @@ export const developmentConfig: TestConfig = {
   
   devices: [
     { name: 'Desktop', width: 1920, height: 1080 },
-    { name: 'Mobile', width: 375, height: 667 },
+    { name: 'Mobile', descriptor: 'iPhone 8' },
   ],
   
   timeouts: {
@@ -139,9 +245,17 @@ export const productionConfig: TestConfig = {
   devices: [
     { name: 'Desktop 1920x1080', width: 1920, height: 1080 },
     { name: 'Desktop 1366x768', width: 1366, height: 768 },
-    { name: 'Tablet iPad', width: 768, height: 1024 },
-    { name: 'Mobile iPhone 12', width: 390, height: 844 },
-    { name: 'Mobile Samsung S21', width: 360, height: 800 },
+    { name: 'Tablet iPad', descriptor: 'iPad Mini' },
+    { name: 'Mobile iPhone 12', descriptor: 'iPhone 12' },
+    {
+      name: 'Mobile Samsung S21',
+      width: 360,
+      height: 800,
+      isMobile: true,
+      hasTouch: true,
+      deviceScaleFactor: 3,
+      userAgent: 'Mozilla/5.0 (Linux; Android 13; SM-G991B) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Mobile Safari/537.36',
+    },
   ],
   
   timeouts: {
@@ -194,8 +308,8 @@ export const stagingConfig: TestConfig = {
   
   devices: [
     { name: 'Desktop', width: 1920, height: 1080 },
-    { name: 'Tablet', width: 768, height: 1024 },
-    { name: 'Mobile', width: 375, height: 667 },
+    { name: 'Tablet', descriptor: 'iPad Mini' },
+    { name: 'Mobile', descriptor: 'iPhone 8' },
   ],
   
   timeouts: {
@@ -229,6 +343,14 @@ export const stagingConfig: TestConfig = {
     },
   },
   
+  // staging อยู่หลัง basic auth: ใช้ credentials เมื่อตั้ง STAGING_USER / STAGING_PASSWORD ไว้ (ไม่ตั้ง = ไม่ส่ง basic auth)
+  auth: process.env.STAGING_USER && process.env.STAGING_PASSWORD ? {
+    httpCredentials: {
+      username: '${STAGING_USER}',
+      password: '${STAGING_PASSWORD}',
+    },
+  } : undefined,
+  
   notifications: {
     enabled: true,
     slack: {
@@ -297,7 +419,7 @@ export const cicdConfig: TestConfig = {
   
   devices: [
     { name: 'Desktop', width: 1920, height: 1080 },
-    { name: 'Mobile', width: 375, height: 667 },
+    { name: 'Mobile', descriptor: 'iPhone 8' },
   ],
   
   timeouts: {
@@ -343,16 +465,18 @@ export const cicdConfig: TestConfig = {
 // Helper function เพื่อโหลด config
 // ==============================
 
+const CONFIGS: Record<string, TestConfig> = {
+  development: developmentConfig,
+  staging: stagingConfig,
+  production: productionConfig,
+  quick: quickTestConfig,
+  cicd: cicdConfig,
+};
+
+export const CONFIG_ENVIRONMENTS = Object.keys(CONFIGS);
+
 export function getConfig(environment: string = 'production'): TestConfig {
-  const configs: Record<string, TestConfig> = {
-    development: developmentConfig,
-    staging: stagingConfig,
-    production: productionConfig,
-    quick: quickTestConfig,
-    cicd: cicdConfig,
-  };
-  
-  return configs[environment] || productionConfig;
+  return Object.prototype.hasOwnProperty.call(CONFIGS, environment) ? CONFIGS[environment] : productionConfig;
 }
 
 // ==============================
@@ -0,0 +1,86 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { BrowserContext, BrowserContextOptions } from 'playwright';
+import { TestConfig } from '../config/config.example';
+import { resolveEnvValue } from './user-journey';
+
+// ========================================
+// Authenticated Browser Contexts
+// ========================================
+
+export type AuthConfig = NonNullable<TestConfig['auth']>;
+export type AuthCookie = Parameters<BrowserContext['addCookies']>[0][number];
+
+export interface ResolvedAuth {
+  contextOptions: Pick<BrowserContextOptions, 'storageState' | 'httpCredentials'>;
+  headers: Record<string, string>;   // ส่งเฉพาะ request ที่ origin เดียวกับ url (ดู applyAuthHeaders)
+  cookies: AuthCookie[];
+}
+
+/**
+ * Turn the auth config into context options, headers and cookies (${ENV} placeholders resolved, paths absolute).
+ * Credentials are limited to the audited origin and cookies without a domain are scoped to the audited URL.
+ */
+export function resolveAuth(auth: AuthConfig | undefined, url: string): ResolvedAuth {
+  const resolved: ResolvedAuth = { contextOptions: {}, headers: {}, cookies: [] };
+  if (!auth) {
+    return resolved;
+  }
+
+  if (auth.storageState) {
+    const statePath = path.resolve(resolveEnvValue(auth.storageState));
+    if (!fs.existsSync(statePath)) {
+      throw new Error(`storageState file not found: ${statePath}`);
+    }
+    resolved.contextOptions.storageState = statePath;
+  }
+
+  if (auth.httpCredentials) {
+    resolved.contextOptions.httpCredentials = {
+      username: resolveEnvValue(auth.httpCredentials.username),
+      password: resolveEnvValue(auth.httpCredentials.password),
+      // Without an origin Playwright answers auth challenges from any host, third parties included
+      origin: new URL(url).origin,
+    };
+  }
+
+  Object.entries(auth.headers || {}).forEach(([name, value]) => {
+    resolved.headers[name] = resolveEnvValue(value);
+  });
+
+  resolved.cookies = (auth.cookies || []).map(cookie => {
+    const { domain, path: cookiePath, ...rest } = cookie;
+    const value = resolveEnvValue(cookie.value);
+    // Playwright needs either url or domain + path
+    return domain
+      ? { ...rest, value, domain, path: cookiePath || '/' }
+      : { ...rest, value, url: new URL(cookiePath || '/', url).toString() };
+  });
+
+  return resolved;
+}
+
+/**
+ * Add the auth headers to requests for the audited origin only; extraHTTPHeaders would also send them
+ * to CDNs and third-party scripts. Other routes (HAR replay) still see the request via fallback.
+ */
+export async function applyAuthHeaders(ctx: BrowserContext, headers: Record<string, string>, url: string): Promise<void> {
+  if (Object.keys(headers).length === 0) {
+    return;
+  }
+  const origin = new URL(url).origin;
+  await ctx.route(requestUrl => requestUrl.origin === origin, route =>
+    route.fallback({ headers: { ...route.request().headers(), ...headers } }));
+}
+
+/**
+ * Parse "name=value" (cookie) or "Name: value" (header) CLI arguments
+ */
+export function parseKeyValue(input: string, separator: '=' | ':'): [string, string] {
+  const index = input.indexOf(separator);
+  const key = index > 0 ? input.slice(0, index).trim() : '';
+  if (!key) {
+    throw new Error(`Expected "name${separator}value": ${input}`);
+  }
+  return [key, input.slice(index + 1).trim()];
+}
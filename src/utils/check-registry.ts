@@ -0,0 +1,142 @@
+import * as path from 'path';
+import { BrowserContext, Page } from 'playwright';
+import { TestConfig } from '../config/config.example';
+import type { TestResult } from '../testers/ux-ui-tester';
+import { BrowserEngine } from './cross-browser';
+
+// ========================================
+// Check Registry (built-in & custom checks)
+// ========================================
+
+export interface CheckContext {
+  url: string;                      // หน้าที่กำลังทดสอบ (เปลี่ยนตามหน้าใน crawl mode)
+  browser: BrowserEngine;
+  config: TestConfig;
+  context: BrowserContext;          // เปิดหน้าเพิ่มได้ เช่น ตรวจหน้าอื่นที่เกี่ยวข้อง
+  consoleErrors: readonly string[];
+}
+
+/**
+ * Result returned by a check; category defaults to the check's category and severity to 'medium'
+ */
+export type CheckResult = Pick<TestResult, 'test' | 'status' | 'score' | 'details'> &
+  Partial<Pick<TestResult, 'category' | 'severity' | 'elements' | 'recommendations'>>;
+
+export interface UXCheck {
+  name: string;                     // ชื่อที่ไม่ซ้ำ เช่น 'brand-logo' (ใช้กับ checks.disable)
+  category: string;
+  enabled?: (config: TestConfig) => boolean;
+  // Built-in checks add their results to the tester directly and return nothing
+  run(page: Page, ctx: CheckContext): Promise<CheckResult[] | void>;
+}
+
+const STATUSES: Array<TestResult['status']> = ['pass', 'fail', 'warning'];
+const SEVERITIES: Array<TestResult['severity']> = ['high', 'medium', 'low'];
+
+export function validateCheck(check: any, source: string): UXCheck {
+  if (!check || typeof check !== 'object') {
+    throw new Error(`Invalid check from ${source}: expected an object`);
+  }
+  if (typeof check.name !== 'string' || check.name.trim() === '') {
+    throw new Error(`Invalid check from ${source}: missing name`);
+  }
+  if (typeof check.category !== 'string' || check.category.trim() === '') {
+    throw new Error(`Invalid check "${check.name}" from ${source}: missing category`);
+  }
+  if (typeof check.run !== 'function') {
+    throw new Error(`Invalid check "${check.name}" from ${source}: run must be a function`);
+  }
+  if (check.enabled !== undefined && typeof check.enabled !== 'function') {
+    throw new Error(`Invalid check "${check.name}" from ${source}: enabled must be a function`);
+  }
+  return check as UXCheck;
+}
+
+/**
+ * Fill in defaults and reject results the report cannot render
+ */
+export function normalizeCheckResult(check: UXCheck, result: CheckResult): Omit<TestResult, 'timestamp'> {
+  if (!result || typeof result.test !== 'string' || typeof result.details !== 'string') {
+    throw new Error(`Check "${check.name}" returned a result without test/details`);
+  }
+  if (!STATUSES.includes(result.status)) {
+    throw new Error(`Check "${check.name}" returned an invalid status: ${result.status}`);
+  }
+  if (typeof result.score !== 'number' || isNaN(result.score) || result.score < 0 || result.score > 10) {
+    throw new Error(`Check "${check.name}" returned an invalid score (0-10): ${result.score}`);
+  }
+  if (result.severity !== undefined && !SEVERITIES.includes(result.severity)) {
+    throw new Error(`Check "${check.name}" returned an invalid severity: ${result.severity}`);
+  }
+
+  return {
+    category: result.category || check.category,
+    test: result.test,
+    status: result.status,
+    score: result.score,
+    details: result.details,
+    severity: result.severity || 'medium',
+    elements: result.elements,
+    recommendations: result.recommendations,
+  };
+}
+
+/**
+ * Load checks from a module exporting a check or an array of checks
+ * (default export, `checks` export or module.exports). Paths are relative to the working directory.
+ */
+export function loadCheckModule(modulePath: string): UXCheck[] {
+  const resolved = path.resolve(modulePath);
+  let mod: any;
+  try {
+    mod = require(resolved);
+  } catch (e) {
+    throw new Error(`Could not load check module ${modulePath}: ${e instanceof Error ? e.message : e}`);
+  }
+
+  const exported = mod?.default ?? mod?.checks ?? mod;
+  const checks = Array.isArray(exported) ? exported : [exported];
+  return checks.map(check => validateCheck(check, modulePath));
+}
+
+export class CheckRegistry {
+  private checks: UXCheck[] = [];
+
+  register(check: UXCheck): void {
+    validateCheck(check, 'register()');
+    if (this.get(check.name)) {
+      throw new Error(`Check "${check.name}" is already registered`);
+    }
+    this.checks.push(check);
+  }
+
+  unregister(name: string): boolean {
+    const before = this.checks.length;
+    this.checks = this.checks.filter(c => c.name !== name);
+    return this.checks.length < before;
+  }
+
+  get(name: string): UXCheck | undefined {
+    return this.checks.find(c => c.name === name);
+  }
+
+  /**
+   * Checks in registration order (built-ins first)
+   */
+  list(): UXCheck[] {
+    return this.checks.slice();
+  }
+
+  /**
+   * Checks to run for this config: `enabled` toggles and `checks.disable` names.
+   * A disabled name that matches no check is an error, so a typo does not leave the check running.
+   */
+  enabledChecks(config: TestConfig): UXCheck[] {
+    const disabled = config.checks?.disable || [];
+    const unknown = disabled.filter(name => !this.get(name));
+    if (unknown.length > 0) {
+      throw new Error(`Unknown check(s) in checks.disable: ${unknown.join(', ')} (registered: ${this.checks.map(c => c.name).join(', ')})`);
+    }
+    return this.checks.filter(c => !disabled.includes(c.name) && (c.enabled ? c.enabled(config) : true));
+  }
+}
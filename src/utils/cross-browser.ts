@@ -0,0 +1,119 @@
+import { TestConfig } from '../config/config.example';
+import { UXReport, TestResult } from '../testers/ux-ui-tester';
+
+// ========================================
+// Cross-Browser Merge & Discrepancies
+// ========================================
+
+export type BrowserEngine = NonNullable<TestConfig['browser']['browsers']>[number];
+
+export const BROWSER_ENGINES: BrowserEngine[] = ['chromium', 'firefox', 'webkit'];
+
+export interface BrowserSummary {
+  browser: BrowserEngine;
+  overallScore: number;
+  passed: number;
+  failed: number;
+  warnings: number;
+}
+
+export interface BrowserDiscrepancy {
+  category: string;
+  test: string;
+  page?: string;
+  statuses: Partial<Record<BrowserEngine, TestResult['status']>>;
+  details: Partial<Record<BrowserEngine, string>>;
+}
+
+/**
+ * Find tests whose status differs between engines.
+ * Tests that only ran in one engine (e.g. Chromium-only metrics) are not compared.
+ */
+export function findDiscrepancies(results: TestResult[]): BrowserDiscrepancy[] {
+  const groups = new Map<string, TestResult[]>();
+  const seen = new Map<string, number>();
+
+  results.forEach(result => {
+    if (!result.browser) return;
+    // Repeated tests in the same engine are matched by occurrence
+    const base = `${result.page || ''}|${result.category}|${result.test}`;
+    const occurrence = (seen.get(`${base}|${result.browser}`) || 0) + 1;
+    seen.set(`${base}|${result.browser}`, occurrence);
+    const key = `${base}#${occurrence}`;
+    if (!groups.has(key)) groups.set(key, []);
+    groups.get(key)!.push(result);
+  });
+
+  const discrepancies: BrowserDiscrepancy[] = [];
+  groups.forEach(group => {
+    if (group.length < 2) return;
+    if (group.every(r => r.status === group[0].status)) return;
+
+    const discrepancy: BrowserDiscrepancy = {
+      category: group[0].category,
+      test: group[0].test,
+      page: group[0].page,
+      statuses: {},
+      details: {},
+    };
+    group.forEach(r => {
+      discrepancy.statuses[r.browser as BrowserEngine] = r.status;
+      discrepancy.details[r.browser as BrowserEngine] = r.details;
+    });
+    discrepancies.push(discrepancy);
+  });
+
+  return discrepancies;
+}
+
+/**
+ * Merge per-engine reports into one report.
+ * Performance comes from the first engine; accessibility issues are de-duplicated across engines.
+ */
+export function mergeBrowserReports(runs: Array<{ browser: BrowserEngine; report: UXReport }>): UXReport {
+  const primary = runs[0].report;
+  const results = runs.flatMap(r => r.report.results);
+  const overallScore = Math.round(runs.reduce((sum, r) => sum + r.report.overallScore, 0) / runs.length);
+
+  const issueKeys = new Set<string>();
+  const accessibility = runs.flatMap(r => r.report.accessibility).filter(issue => {
+    const key = `${issue.page || ''}|${issue.type}|${issue.element}`;
+    if (issueKeys.has(key)) return false;
+    issueKeys.add(key);
+    return true;
+  });
+
+  const discrepancies = findDiscrepancies(results);
+
+  const recommendations: string[] = [];
+  if (discrepancies.length > 0) {
+    recommendations.push(`🌐 ${discrepancies.length} test(s) behave differently across browsers: ` +
+      discrepancies.slice(0, 3).map(d => `${d.test} (${Object.entries(d.statuses).map(([b, s]) => `${b}: ${s}`).join(', ')})`).join('; '));
+  }
+  runs.forEach(r => r.report.recommendations.forEach(rec => {
+    if (!recommendations.includes(rec)) recommendations.push(rec);
+  }));
+
+  return {
+    url: primary.url,
+    testDate: new Date().toISOString(),
+    overallScore,
+    results,
+    performance: primary.performance,
+    accessibility,
+    responsive: runs.flatMap(r => r.report.responsive),
+    recommendations,
+    visual: runs.some(r => r.report.visual) ? runs.flatMap(r => r.report.visual || []) : undefined,
+    pages: primary.pages,
+    journey: primary.journey,
+    browsers: runs.map(r => ({
+      browser: r.browser,
+      overallScore: r.report.overallScore,
+      passed: r.report.results.filter(x => x.status === 'pass').length,
+      failed: r.report.results.filter(x => x.status === 'fail').length,
+      warnings: r.report.results.filter(x => x.status === 'warning').length,
+    })),
+    discrepancies,
+    browserReports: runs.map(r => r.report),
+  };
+}
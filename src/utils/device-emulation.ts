@@ -0,0 +1,68 @@
+import { devices, BrowserContextOptions } from 'playwright';
+import { TestConfig } from '../config/config.example';
+import { BrowserEngine } from './cross-browser';
+
+// ========================================
+// Device Emulation
+// ========================================
+
+export type DeviceConfig = TestConfig['devices'][number];
+
+export interface ResolvedDevice {
+  name: string;
+  width: number;
+  height: number;
+  isMobile: boolean;
+  hasTouch: boolean;
+  deviceScaleFactor: number;
+  userAgent?: string;
+  contextOptions: BrowserContextOptions;
+}
+
+/**
+ * Build browser context options for a configured device.
+ * Values from a Playwright descriptor are used first, then overridden by explicit fields.
+ */
+export function resolveDevice(device: DeviceConfig, browser: BrowserEngine = 'chromium'): ResolvedDevice {
+  let base: Partial<(typeof devices)[string]> = {};
+  if (device.descriptor) {
+    base = devices[device.descriptor];
+    if (!base) {
+      throw new Error(`Unknown device descriptor "${device.descriptor}" for ${device.name}`);
+    }
+  }
+
+  let width = device.width ?? base.viewport?.width;
+  let height = device.height ?? base.viewport?.height;
+  if (!width || !height) {
+    throw new Error(`Device ${device.name} needs width/height or a descriptor`);
+  }
+
+  // หมุนจอตาม orientation (สลับ width/height เมื่อไม่ตรง)
+  if (device.orientation && (device.orientation === 'landscape') !== (width > height)) {
+    [width, height] = [height, width];
+  }
+
+  const isMobile = device.isMobile ?? base.isMobile ?? false;
+  const hasTouch = device.hasTouch ?? base.hasTouch ?? false;
+  const deviceScaleFactor = device.deviceScaleFactor ?? base.deviceScaleFactor ?? 1;
+  const userAgent = device.userAgent ?? base.userAgent;
+
+  return {
+    name: device.name,
+    width,
+    height,
+    isMobile,
+    hasTouch,
+    deviceScaleFactor,
+    userAgent,
+    contextOptions: {
+      viewport: { width, height },
+      // Firefox does not support isMobile; touch, DPR and UA are still applied
+      isMobile: browser === 'firefox' ? undefined : isMobile,
+      hasTouch,
+      deviceScaleFactor,
+      userAgent,
+    },
+  };
+}
@@ -0,0 +1,122 @@
+import { BrowserContext } from 'playwright';
+
+// ========================================
+// Unique Element Selectors (in-page)
+// ========================================
+
+export interface ElementSelector {
+  css: string;
+  xpath: string;    // ใช้แทนเมื่อ CSS selector หาไม่เจอหรือเจอหลายตัว
+}
+
+/**
+ * Unique CSS selector and XPath for an element. Runs in the page, so it must stay self-contained
+ * (no imports or helpers from this module).
+ *
+ * Prefers stable hooks: id, test ids and descriptive attributes, non-generated classes, then the
+ * same scoped by the closest ancestor id, and finally a tag/nth-of-type path from that ancestor
+ * (from the root when there is none). Every candidate is checked against the document so the
+ * selector matches this element and nothing else.
+ */
+export function uniqueSelector(target: Node | null): ElementSelector {
+  const el = target && target.nodeType === 1 ? target as Element : target ? target.parentElement : null;
+  if (!el) {
+    return { css: target && target.nodeName ? target.nodeName.toLowerCase() : 'unknown', xpath: '' };
+  }
+
+  const root = el.getRootNode() as Document | ShadowRoot;
+  const matchesOnly = (css: string): boolean => {
+    try {
+      const found = root.querySelectorAll(css);
+      return found.length === 1 && found[0] === el;
+    } catch (e) {
+      return false;
+    }
+  };
+  // Framework-generated ids (React useId, ember123, uuids) change between renders
+  const stableId = (node: Element): boolean =>
+    !!node.id && !/\d{4,}|^:|:$|^[0-9a-f-]{16,}$/i.test(node.id) && root.querySelectorAll(`#${CSS.escape(node.id)}`).length === 1;
+  // Hashed class names from CSS-in-JS / CSS modules change between builds
+  const stableClasses = (node: Element): string[] => Array.from(node.classList)
+    .filter(c => !/^(css|sc|jsx|emotion|svelte)-|[0-9a-f]{6,}|\d{3,}|__[a-z0-9]{5,}$/i.test(c))
+    .slice(0, 3)
+    .map(c => `.${CSS.escape(c)}`);
+  const tagOf = (node: Element): string => CSS.escape(node.localName);
+  const position = (node: Element): { index: number; count: number } => {
+    const parent = node.parentElement || node.parentNode as ParentNode | null;
+    const same = parent ? Array.from(parent.children).filter(c => c.localName === node.localName) : [node];
+    return { index: same.indexOf(node) + 1, count: same.length };
+  };
+
+  // XPath: positional steps up to the closest stable id
+  const xpath = (() => {
+    const steps: string[] = [];
+    for (let node: Element | null = el; node; node = node.parentElement) {
+      if (stableId(node) && !node.id.includes('"')) {
+        return `//*[@id="${node.id}"]${steps.length > 0 ? '/' + steps.join('/') : ''}`;
+      }
+      const name = node.namespaceURI === 'http://www.w3.org/1999/xhtml' ? node.localName : `*[local-name()="${node.localName}"]`;
+      steps.unshift(`${name}[${position(node).index}]`);
+    }
+    return '/' + steps.join('/');
+  })();
+
+  if (stableId(el)) {
+    return { css: `#${CSS.escape(el.id)}`, xpath };
+  }
+
+  const tag = tagOf(el);
+  const candidates: string[] = [];
+  ['data-testid', 'data-test', 'data-qa', 'data-cy', 'name', 'aria-label', 'for', 'alt', 'title', 'href', 'src'].forEach(attr => {
+    const value = el.getAttribute(attr);
+    if (value && value.length <= 80 && !/[\n\r]/.test(value)) {
+      candidates.push(`${tag}[${attr}="${value.replace(/["\\]/g, '\\$&')}"]`);
+    }
+  });
+  const classes = stableClasses(el);
+  if (classes.length > 0) {
+    candidates.push(`${tag}${classes.join('')}`);
+  }
+
+  const direct = candidates.find(matchesOnly);
+  if (direct) {
+    return { css: direct, xpath };
+  }
+
+  // Same candidates scoped by the closest ancestor with a stable id
+  let anchor: Element | null = el.parentElement;
+  while (anchor && !stableId(anchor)) {
+    anchor = anchor.parentElement;
+  }
+  if (anchor) {
+    const scoped = [...candidates, tag].map(c => `#${CSS.escape(anchor!.id)} ${c}`).find(matchesOnly);
+    if (scoped) {
+      return { css: scoped, xpath };
+    }
+  }
+
+  // Positional path from the closest stable id, so it survives changes elsewhere in the page.
+  // Without an anchor it is shortened as soon as it is unique.
+  const segments: string[] = [];
+  for (let node: Element | null = el; node; node = node.parentElement) {
+    if (node === anchor) {
+      segments.unshift(`#${CSS.escape(node.id)}`);
+      break;
+    }
+    const { index, count } = position(node);
+    segments.unshift(count > 1 ? `${tagOf(node)}:nth-of-type(${index})` : tagOf(node));
+    if (!anchor && matchesOnly(segments.join(' > '))) {
+      break;
+    }
+  }
+  return { css: segments.join(' > '), xpath };
+}
+
+/**
+ * Init script that exposes the generator as window.__uxSelector(element) in every page
+ */
+export const SELECTOR_SCRIPT = `window.__uxSelector = ${uniqueSelector.toString()};`;
+
+export async function installSelectorGenerator(ctx: BrowserContext): Promise<void> {
+  await ctx.addInitScript({ content: SELECTOR_SCRIPT });
+}
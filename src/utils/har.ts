@@ -0,0 +1,67 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+// ========================================
+// HAR Recording (one file from every context)
+// ========================================
+
+// Playwright writes one HAR per context; each context records into its own part file
+let partCounter = 0;
+
+export function harPartsDir(harPath: string): string {
+  return `${harPath}.parts`;
+}
+
+/**
+ * Start a recording: remove parts left over from an interrupted run
+ */
+export function resetHarParts(harPath: string): void {
+  fs.rmSync(harPartsDir(harPath), { recursive: true, force: true });
+  fs.mkdirSync(harPartsDir(harPath), { recursive: true });
+}
+
+/**
+ * Part file for a new context. Bodies are embedded so the parts can be merged as plain JSON.
+ */
+export function nextHarPart(harPath: string): string {
+  partCounter++;
+  return path.join(harPartsDir(harPath), `${process.pid}-${partCounter}.har`);
+}
+
+/**
+ * Merge HAR files into one log: pages and entries of every part, entries in request order
+ */
+export function mergeHarFiles(parts: string[], target: string): { entries: number; parts: number } {
+  const logs = parts.map(part => JSON.parse(fs.readFileSync(part, 'utf-8')).log);
+  if (logs.length === 0) {
+    throw new Error(`No HAR recorded for ${target}`);
+  }
+
+  const entries = logs.flatMap(log => log.entries || [])
+    .sort((a: any, b: any) => new Date(a.startedDateTime).getTime() - new Date(b.startedDateTime).getTime());
+  const merged = {
+    log: {
+      ...logs[0],
+      pages: logs.flatMap(log => log.pages || []),
+      entries,
+    },
+  };
+
+  fs.mkdirSync(path.dirname(target), { recursive: true });
+  fs.writeFileSync(target, JSON.stringify(merged, null, 2));
+  return { entries: entries.length, parts: logs.length };
+}
+
+/**
+ * Merge the parts of a finished recording into the HAR file and remove them.
+ * Every context must be closed first; Playwright writes a part when its context closes.
+ */
+export function finishHarRecording(harPath: string): { entries: number; parts: number } {
+  const dir = harPartsDir(harPath);
+  const parts = fs.existsSync(dir)
+    ? fs.readdirSync(dir).filter(file => file.endsWith('.har')).sort().map(file => path.join(dir, file))
+    : [];
+  const result = mergeHarFiles(parts, harPath);
+  fs.rmSync(dir, { recursive: true, force: true });
+  return result;
+}
@@ -0,0 +1,65 @@
+import { ElementSelector } from './element-selector';
+
+// ========================================
+// Heading Outline
+// ========================================
+
+export interface HeadingInfo {
+  level: number;          // 1-6 จาก tag หรือ aria-level
+  tag: string;            // 'h2' หรือ 'div[role=heading]'
+  text: string;           // accessible name (aria-label, aria-labelledby, ข้อความ, alt ของรูป)
+  selector: ElementSelector;
+  hiddenFromAT: boolean;  // มองเห็นได้แต่ screen reader ไม่อ่าน (aria-hidden, role=presentation)
+  landmark: string;       // landmark ที่ครอบอยู่ เช่น 'main', 'banner' หรือ 'document'
+}
+
+export interface SkippedLevel {
+  heading: HeadingInfo;
+  previous: HeadingInfo;
+}
+
+export interface OutlineAnalysis {
+  outline: HeadingInfo[];   // headings ที่ assistive tech เห็น ตามลำดับใน DOM
+  skipped: SkippedLevel[];
+  empty: HeadingInfo[];
+  hidden: HeadingInfo[];
+  h1s: HeadingInfo[];
+  h1Landmarks: string[];
+}
+
+/**
+ * Validate headings collected in DOM order. Skips are measured between consecutive headings
+ * that assistive tech exposes, so going back up (h4 → h2) is fine but going down more
+ * than one level (h2 → h4) is not.
+ */
+export function analyzeOutline(headings: HeadingInfo[]): OutlineAnalysis {
+  const outline = headings.filter(h => !h.hiddenFromAT);
+  const skipped: SkippedLevel[] = [];
+  outline.forEach((heading, i) => {
+    if (i > 0 && heading.level > outline[i - 1].level + 1) {
+      skipped.push({ heading, previous: outline[i - 1] });
+    }
+  });
+
+  const h1s = outline.filter(h => h.level === 1);
+  return {
+    outline,
+    skipped,
+    empty: outline.filter(h => h.text === ''),
+    hidden: headings.filter(h => h.hiddenFromAT),
+    h1s,
+    h1Landmarks: Array.from(new Set(h1s.map(h => h.landmark))),
+  };
+}
+
+/**
+ * One-line outline for report details: h1 "Shop", h2 "Newsletter", ...
+ */
+export function formatOutline(outline: HeadingInfo[], max: number = 12): string {
+  const label = (h: HeadingInfo) => {
+    const text = h.text.length > 40 ? `${h.text.substring(0, 40)}…` : h.text;
+    return `h${h.level} "${text}"`;
+  };
+  const shown = outline.slice(0, max).map(label).join(', ');
+  return outline.length > max ? `${shown}, … (+${outline.length - max})` : shown;
+}
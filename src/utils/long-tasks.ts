@@ -0,0 +1,89 @@
+import { isThirdPartyUrl } from './resource-breakdown';
+
+// ========================================
+// Long Tasks & Total Blocking Time
+// ========================================
+
+export interface LongTaskRecord {
+  startTime: number;
+  duration: number;
+}
+
+export interface ScriptBlocking {
+  url: string;            // '(unattributed)' เมื่อไม่พบ script ใน task (เช่น layout/style)
+  blockingTime: number;   // ms เกิน 50ms ที่ถูก block จาก task ของ script นี้
+  taskCount: number;
+  totalDuration: number;
+  thirdParty: boolean;
+}
+
+export interface TraceEvent {
+  name: string;
+  ph: string;
+  ts: number;     // microseconds
+  dur?: number;
+  pid: number;
+  tid: number;
+  args?: any;
+}
+
+const BLOCKING_THRESHOLD = 50;
+const TASK_EVENTS = ['RunTask', 'ThreadControllerImpl::RunTask'];
+const SCRIPT_EVENTS = ['EvaluateScript', 'FunctionCall', 'v8.compile', 'v8.evaluateModule'];
+export const UNATTRIBUTED = '(unattributed)';
+
+/**
+ * TBT = sum of the time each long task exceeds 50ms between First Contentful Paint and `windowEnd`
+ * (the moment scripted interactions start). Tasks that straddle either bound only count the part inside.
+ */
+export function computeTBT(tasks: LongTaskRecord[], firstContentfulPaint: number, windowEnd: number = Infinity): number {
+  const total = tasks.reduce((sum, task) => {
+    const end = Math.min(task.startTime + task.duration, windowEnd);
+    if (end <= firstContentfulPaint) return sum;
+    const duration = end - Math.max(task.startTime, firstContentfulPaint);
+    return sum + Math.max(0, duration - BLOCKING_THRESHOLD);
+  }, 0);
+  return Math.round(total);
+}
+
+/**
+ * Attribute long main-thread tasks from a Chromium trace to the script that ran longest inside them
+ */
+export function attributeLongTasks(events: TraceEvent[], pageUrl: string): ScriptBlocking[] {
+  const mainThreads = new Set(events
+    .filter(e => e.ph === 'M' && e.name === 'thread_name' && e.args?.name === 'CrRendererMain')
+    .map(e => `${e.pid}:${e.tid}`));
+  const onMain = (e: TraceEvent) => mainThreads.has(`${e.pid}:${e.tid}`) && e.ph === 'X' && typeof e.dur === 'number';
+
+  const tasks = events.filter(e => onMain(e) && TASK_EVENTS.includes(e.name) && e.dur! / 1000 > BLOCKING_THRESHOLD);
+  const scripts = events.filter(e => onMain(e) && SCRIPT_EVENTS.includes(e.name) && e.args?.data?.url);
+
+  const byUrl = new Map<string, ScriptBlocking>();
+  tasks.forEach(task => {
+    const end = task.ts + task.dur!;
+    const timePerUrl = new Map<string, number>();
+    scripts
+      .filter(s => s.pid === task.pid && s.tid === task.tid && s.ts >= task.ts && s.ts + s.dur! <= end)
+      .forEach(s => timePerUrl.set(s.args.data.url, (timePerUrl.get(s.args.data.url) || 0) + s.dur!));
+
+    let url = UNATTRIBUTED;
+    let longest = 0;
+    timePerUrl.forEach((time, candidate) => {
+      if (time > longest) {
+        longest = time;
+        url = candidate;
+      }
+    });
+
+    const duration = task.dur! / 1000;
+    const entry = byUrl.get(url) || { url, blockingTime: 0, taskCount: 0, totalDuration: 0, thirdParty: url !== UNATTRIBUTED && isThirdPartyUrl(url, pageUrl) };
+    entry.blockingTime += duration - BLOCKING_THRESHOLD;
+    entry.totalDuration += duration;
+    entry.taskCount++;
+    byUrl.set(url, entry);
+  });
+
+  return Array.from(byUrl.values())
+    .map(e => ({ ...e, blockingTime: Math.round(e.blockingTime), totalDuration: Math.round(e.totalDuration) }))
+    .sort((a, b) => b.blockingTime - a.blockingTime);
+}
@@ -0,0 +1,84 @@
+import { TestConfig } from '../config/config.example';
+import { ResourceBreakdown, ResourceEntry, RESOURCE_TYPES } from './resource-breakdown';
+
+// ========================================
+// Performance Budgets (per resource type)
+// ========================================
+
+export type BudgetConfig = NonNullable<TestConfig['budgets']>;
+// งบต่อ resource type และรวมทั้งหน้า / third-party (config ใช้ชุดเดียวกันนี้)
+export const BUDGET_KEYS = [...RESOURCE_TYPES, 'total', 'third-party'] as const;
+export type BudgetKey = typeof BUDGET_KEYS[number];
+
+export interface BudgetResult {
+  name: string;
+  limit: number;
+  actual: number;
+  unit: 'KB' | 'requests' | 'origins';
+  passed: boolean;
+  offenders: string[];   // resource/origin ที่ใช้งบมากที่สุด (เรียงจากมากไปน้อย)
+}
+
+function resourcesFor(breakdown: ResourceBreakdown, key: BudgetKey): ResourceEntry[] {
+  if (key === 'total') return breakdown.resources;
+  if (key === 'third-party') return breakdown.resources.filter(r => r.thirdParty);
+  return breakdown.resources.filter(r => r.type === key);
+}
+
+function describe(resource: ResourceEntry): string {
+  return `${resource.url} (${(resource.transferSize / 1024).toFixed(1)}KB)`;
+}
+
+/**
+ * Evaluate configured budgets against the captured resources.
+ * Size budgets are in KB of transferred bytes.
+ */
+export function evaluateBudgets(breakdown: ResourceBreakdown, budgets: BudgetConfig, maxOffenders: number = 5): BudgetResult[] {
+  const results: BudgetResult[] = [];
+
+  BUDGET_KEYS.forEach(key => {
+    const limit = budgets.resourceSizes?.[key];
+    if (limit === undefined) return;
+    const resources = resourcesFor(breakdown, key).slice().sort((a, b) => b.transferSize - a.transferSize);
+    const actual = Math.round(resources.reduce((sum, r) => sum + r.transferSize, 0) / 1024);
+    results.push({
+      name: `${key} size ≤ ${limit}KB`,
+      limit,
+      actual,
+      unit: 'KB',
+      passed: actual <= limit,
+      offenders: actual > limit ? resources.slice(0, maxOffenders).map(describe) : [],
+    });
+  });
+
+  BUDGET_KEYS.forEach(key => {
+    const limit = budgets.requestCounts?.[key];
+    if (limit === undefined) return;
+    const resources = resourcesFor(breakdown, key).slice().sort((a, b) => b.transferSize - a.transferSize);
+    results.push({
+      name: `${key} requests ≤ ${limit}`,
+      limit,
+      actual: resources.length,
+      unit: 'requests',
+      passed: resources.length <= limit,
+      offenders: resources.length > limit ? resources.slice(0, maxOffenders).map(describe) : [],
+    });
+  });
+
+  if (budgets.thirdPartyOrigins !== undefined) {
+    const origins = breakdown.byOrigin.filter(o => o.thirdParty);
+    const limit = budgets.thirdPartyOrigins;
+    results.push({
+      name: `third-party origins ≤ ${limit}`,
+      limit,
+      actual: origins.length,
+      unit: 'origins',
+      passed: origins.length <= limit,
+      offenders: origins.length > limit
+        ? origins.slice(0, maxOffenders).map(o => `${o.origin} (${o.count} requests, ${(o.transferSize / 1024).toFixed(1)}KB)`)
+        : [],
+    });
+  }
+
+  return results;
+}
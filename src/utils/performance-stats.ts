@@ -0,0 +1,60 @@
+// ========================================
+// Load Timing Statistics (multi-run)
+// ========================================
+
+export interface LoadTiming {
+  timeToFirstByte: number;
+  domContentLoaded: number;
+  loadTime: number;
+  firstContentfulPaint: number;
+  largestContentfulPaint: number;
+}
+
+export interface PerformanceRuns {
+  count: number;
+  median: LoadTiming;
+  p75: LoadTiming;
+  samples: LoadTiming[];
+}
+
+const TIMING_KEYS: Array<keyof LoadTiming> = [
+  'timeToFirstByte',
+  'domContentLoaded',
+  'loadTime',
+  'firstContentfulPaint',
+  'largestContentfulPaint',
+];
+
+/**
+ * Percentile with linear interpolation between the closest ranks (p = 0..100)
+ */
+export function percentile(values: number[], p: number): number {
+  if (values.length === 0) {
+    return 0;
+  }
+  const sorted = values.slice().sort((a, b) => a - b);
+  const rank = (p / 100) * (sorted.length - 1);
+  const lower = Math.floor(rank);
+  const upper = Math.ceil(rank);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (rank - lower);
+}
+
+/**
+ * Median and p75 of each timing across repeated runs
+ */
+export function summarizeRuns(samples: LoadTiming[]): PerformanceRuns {
+  const pick = (p: number): LoadTiming => {
+    const timing = {} as LoadTiming;
+    TIMING_KEYS.forEach(key => {
+      timing[key] = Math.round(percentile(samples.map(s => s[key]), p));
+    });
+    return timing;
+  };
+
+  return {
+    count: samples.length,
+    median: pick(50),
+    p75: pick(75),
+    samples,
+  };
+}
@@ -54,8 +54,15 @@ class ReportConverter {
       ['Performance Metrics'],
       ['Metric', 'Value', 'Status'],
       ['Page Load Time', `${(report.performance.loadTime / 1000).toFixed(2)}s`, report.performance.loadTime < 3000 ? 'Pass' : 'Warning'],
+      ['Time to First Byte', `${Math.round(report.performance.timeToFirstByte || 0)}ms`, (report.performance.timeToFirstByte || 0) < 800 ? 'Pass' : 'Warning'],
       ['First Contentful Paint', `${Math.round(report.performance.firstContentfulPaint)}ms`, report.performance.firstContentfulPaint < 2500 ? 'Pass' : 'Warning'],
       ['Largest Contentful Paint', `${Math.round(report.performance.largestContentfulPaint)}ms`, report.performance.largestContentfulPaint < 2500 ? 'Pass' : 'Warning'],
+      ['Cumulative Layout Shift', report.performance.cumulativeLayoutShift !== undefined ? report.performance.cumulativeLayoutShift.toFixed(3) : 'n/a',
+        report.performance.cumulativeLayoutShift === undefined ? '' : report.performance.cumulativeLayoutShift <= 0.1 ? 'Pass' : 'Warning'],
+      ['Interaction to Next Paint', report.performance.interactionToNextPaint !== undefined ? `${report.performance.interactionToNextPaint}ms` : 'n/a',
+        report.performance.interactionToNextPaint === undefined ? '' : report.performance.interactionToNextPaint <= 200 ? 'Pass' : 'Warning'],
+      ['Total Blocking Time', report.performance.totalBlockingTime !== undefined ? `${report.performance.totalBlockingTime}ms` : 'n/a',
+        report.performance.totalBlockingTime === undefined ? '' : report.performance.totalBlockingTime <= 200 ? 'Pass' : 'Warning'],
       ['Total Page Size', `${(report.performance.totalSize / 1024 / 1024).toFixed(2)}MB`, report.performance.totalSize < 3000000 ? 'Pass' : 'Warning'],
       ['Number of Requests', report.performance.requestCount.toString(), ''],
     ];
@@ -226,6 +233,12 @@ class ReportConverter {
                 new TableCell({ children: [new Paragraph({ text: `${(report.performance.loadTime / 1000).toFixed(2)}s` })] })
               ]
             }),
+            new TableRow({
+              children: [
+                new TableCell({ children: [new Paragraph({ text: 'Time to First Byte' })] }),
+                new TableCell({ children: [new Paragraph({ text: `${Math.round(report.performance.timeToFirstByte || 0)}ms` })] })
+              ]
+            }),
             new TableRow({
               children: [
                 new TableCell({ children: [new Paragraph({ text: 'First Contentful Paint' })] }),
@@ -238,6 +251,18 @@ class ReportConverter {
                 new TableCell({ children: [new Paragraph({ text: `${Math.round(report.performance.largestContentfulPaint)}ms` })] })
               ]
             }),
+            new TableRow({
+              children: [
+                new TableCell({ children: [new Paragraph({ text: 'Cumulative Layout Shift' })] }),
+                new TableCell({ children: [new Paragraph({ text: report.performance.cumulativeLayoutShift !== undefined ? report.performance.cumulativeLayoutShift.toFixed(3) : 'n/a' })] })
+              ]
+            }),
+            new TableRow({
+              children: [
+                new TableCell({ children: [new Paragraph({ text: 'Interaction to Next Paint' })] }),
+                new TableCell({ children: [new Paragraph({ text: report.performance.interactionToNextPaint !== undefined ? `${report.performance.interactionToNextPaint}ms` : 'n/a' })] })
+              ]
+            }),
             new TableRow({
               children: [
                 new TableCell({ children: [new Paragraph({ text: 'Total Page Size' })] }),
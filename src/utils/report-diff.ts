@@ -0,0 +1,173 @@
+import { UXReport, TestResult, AccessibilityIssue, PerformanceMetrics } from '../testers/ux-ui-tester';
+
+// ========================================
+// Baseline Comparison (Report Diff)
+// ========================================
+
+export interface TestResultChange {
+  category: string;
+  test: string;
+  page?: string;
+  browser?: TestResult['browser'];
+  baseline?: { status: TestResult['status']; score: number; details: string };
+  current?: { status: TestResult['status']; score: number; details: string };
+  scoreDelta: number;
+}
+
+export interface MetricDelta {
+  metric: keyof PerformanceMetrics;
+  baseline: number;
+  current: number;
+  delta: number;
+}
+
+export interface ReportDiff {
+  baseline: { url: string; testDate: string; overallScore: number };
+  current: { url: string; testDate: string; overallScore: number };
+  scoreDelta: number;
+  results: {
+    new: TestResultChange[];        // only in current
+    removed: TestResultChange[];    // only in baseline
+    fixed: TestResultChange[];      // warning/fail -> pass
+    regressed: TestResultChange[];  // status got worse
+    changed: TestResultChange[];    // same-or-better status with a different score
+  };
+  performance: MetricDelta[];
+  accessibility: {
+    new: AccessibilityIssue[];
+    resolved: AccessibilityIssue[];
+  };
+}
+
+const STATUS_RANK: Record<TestResult['status'], number> = { pass: 0, warning: 1, fail: 2 };
+
+const PERFORMANCE_METRICS: Array<keyof PerformanceMetrics> = [
+  'loadTime',
+  'timeToFirstByte',
+  'domContentLoaded',
+  'firstPaint',
+  'firstContentfulPaint',
+  'largestContentfulPaint',
+  'cumulativeLayoutShift',
+  'interactionToNextPaint',
+  'totalBlockingTime',
+  'totalSize',
+  'requestCount',
+];
+
+/**
+ * Key results by browser + page + category + test; repeated tests get an occurrence suffix
+ */
+function indexResults(results: TestResult[]): Map<string, TestResult> {
+  const index = new Map<string, TestResult>();
+  results.forEach(result => {
+    const base = `${result.browser || ''}|${result.page || ''}|${result.category}|${result.test}`;
+    let key = base;
+    for (let n = 2; index.has(key); n++) {
+      key = `${base}#${n}`;
+    }
+    index.set(key, result);
+  });
+  return index;
+}
+
+function issueKey(issue: AccessibilityIssue): string {
+  return `${issue.browser || ''}|${issue.page || ''}|${issue.type}|${issue.element}`;
+}
+
+function snapshot(result: TestResult): { status: TestResult['status']; score: number; details: string } {
+  return { status: result.status, score: result.score, details: result.details };
+}
+
+/**
+ * Compare a current report against a baseline report
+ */
+export function diffReports(baseline: UXReport, current: UXReport): ReportDiff {
+  const diff: ReportDiff = {
+    baseline: { url: baseline.url, testDate: baseline.testDate, overallScore: baseline.overallScore },
+    current: { url: current.url, testDate: current.testDate, overallScore: current.overallScore },
+    scoreDelta: current.overallScore - baseline.overallScore,
+    results: { new: [], removed: [], fixed: [], regressed: [], changed: [] },
+    performance: [],
+    accessibility: { new: [], resolved: [] },
+  };
+
+  // Test results
+  const before = indexResults(baseline.results);
+  const after = indexResults(current.results);
+
+  after.forEach((result, key) => {
+    const previous = before.get(key);
+    if (!previous) {
+      diff.results.new.push({
+        category: result.category,
+        test: result.test,
+        page: result.page,
+        browser: result.browser,
+        current: snapshot(result),
+        scoreDelta: result.score,
+      });
+      return;
+    }
+
+    const change: TestResultChange = {
+      category: result.category,
+      test: result.test,
+      page: result.page,
+      browser: result.browser,
+      baseline: snapshot(previous),
+      current: snapshot(result),
+      scoreDelta: result.score - previous.score,
+    };
+
+    if (previous.status !== 'pass' && result.status === 'pass') {
+      diff.results.fixed.push(change);
+    } else if (STATUS_RANK[result.status] > STATUS_RANK[previous.status]) {
+      diff.results.regressed.push(change);
+    } else if (result.status !== previous.status || result.score !== previous.score) {
+      diff.results.changed.push(change);
+    }
+  });
+
+  before.forEach((result, key) => {
+    if (!after.has(key)) {
+      diff.results.removed.push({
+        category: result.category,
+        test: result.test,
+        page: result.page,
+        browser: result.browser,
+        baseline: snapshot(result),
+        scoreDelta: -result.score,
+      });
+    }
+  });
+
+  // Performance metrics
+  PERFORMANCE_METRICS.forEach(metric => {
+    const b = Number(baseline.performance[metric]) || 0;
+    const c = Number(current.performance[metric]) || 0;
+    diff.performance.push({ metric, baseline: b, current: c, delta: c - b });
+  });
+
+  // Accessibility issues
+  const beforeIssues = new Set(baseline.accessibility.map(issueKey));
+  const afterIssues = new Set(current.accessibility.map(issueKey));
+  diff.accessibility.new = current.accessibility.filter(i => !beforeIssues.has(issueKey(i)));
+  diff.accessibility.resolved = baseline.accessibility.filter(i => !afterIssues.has(issueKey(i)));
+
+  return diff;
+}
+
+/**
+ * Print a short diff summary for terminal output
+ */
+export function printDiffSummary(diff: ReportDiff): void {
+  const sign = (n: number) => (n > 0 ? `+${n}` : `${n}`);
+  console.log(`📈 Score: ${diff.baseline.overallScore} → ${diff.current.overallScore} (${sign(diff.scoreDelta)})`);
+  console.log(`   Fixed: ${diff.results.fixed.length}, Regressed: ${diff.results.regressed.length}, ` +
+    `Changed: ${diff.results.changed.length}, New: ${diff.results.new.length}, Removed: ${diff.results.removed.length}`);
+  console.log(`   Accessibility issues: ${diff.accessibility.new.length} new, ${diff.accessibility.resolved.length} resolved`);
+  diff.results.regressed.slice(0, 5).forEach(r => {
+    console.log(`   🔻 ${r.category} - ${r.test}: ${r.baseline?.status} → ${r.current?.status}`);
+  });
+}
@@ -1,4 +1,19 @@
-import { ElementIssue } from './screenshot-analyzer';
+import { ElementIssue, AnnotatedScreenshot, SEVERITY_COLORS } from './screenshot-analyzer';
+import { ReportDiff, TestResultChange } from './report-diff';
+import { ResourceBreakdown, ResourceType, RESOURCE_TYPES } from './resource-breakdown';
+import { VisualSnapshot } from './visual-regression';
+import { VISUAL_REVIEW_FILE } from './visual-review';
+
+const RESOURCE_COLORS: Record<ResourceType, string> = {
+  document: '#667eea',
+  script: '#f4b400',
+  css: '#9c27b0',
+  image: '#2e7d32',
+  font: '#e91e63',
+  xhr: '#00acc1',
+  media: '#795548',
+  other: '#9e9e9e',
+};
 
 export class ReportHTMLGenerator {
   /**
@@ -110,6 +125,11 @@ export class ReportHTMLGenerator {
                 <td><strong>CSS Selector:</strong></td>
                 <td><code>${this.escapeHtml(issue.selector)}</code></td>
               </tr>
+              ${issue.xpath ? `
+              <tr>
+                <td><strong>XPath:</strong></td>
+                <td><code>${this.escapeHtml(issue.xpath)}</code></td>
+              </tr>` : ''}
               <tr>
                 <td><strong>Position:</strong></td>
                 <td>X: ${issue.x}px, Y: ${issue.y}px</td>
@@ -144,6 +164,231 @@ export class ReportHTMLGenerator {
     return html;
   }
 
+  /**
+   * Generate HTML section comparing the report with a baseline run
+   */
+  static generateComparisonSection(diff: ReportDiff): string {
+    const sign = (n: number) => (n > 0 ? `+${n}` : `${n}`);
+    const deltaClass = (n: number, lowerIsBetter: boolean) =>
+      n === 0 ? 'delta-same' : (n < 0) === lowerIsBetter ? 'delta-better' : 'delta-worse';
+
+    let html = `
+    <div class="section">
+      <h2 class="section-title">🔁 เทียบกับ Baseline</h2>
+      <p class="diff-meta">Baseline: ${new Date(diff.baseline.testDate).toLocaleString('th-TH')} → Current: ${new Date(diff.current.testDate).toLocaleString('th-TH')}</p>
+      <div class="diff-score ${deltaClass(diff.scoreDelta, false)}">
+        ${diff.baseline.overallScore} → ${diff.current.overallScore} (${sign(diff.scoreDelta)})
+      </div>
+
+      <table class="diff-table">
+        <tr><th>Metric</th><th>Baseline</th><th>Current</th><th>Δ</th></tr>
+    `;
+
+    diff.performance.forEach(m => {
+      // CLS is a unitless score, keep its decimals
+      const value = (n: number) => m.metric === 'cumulativeLayoutShift' ? Math.round(n * 1000) / 1000 : Math.round(n);
+      html += `
+        <tr>
+          <td>${m.metric}</td>
+          <td>${value(m.baseline)}</td>
+          <td>${value(m.current)}</td>
+          <td class="${deltaClass(m.delta, true)}">${sign(value(m.delta))}</td>
+        </tr>
+      `;
+    });
+
+    html += `
+      </table>
+    `;
+
+    html += this.generateChangeGroup('🔻 Regressed', diff.results.regressed);
+    html += this.generateChangeGroup('✅ Fixed', diff.results.fixed);
+    html += this.generateChangeGroup('🔄 Changed', diff.results.changed);
+    html += this.generateChangeGroup('🆕 New Tests', diff.results.new);
+    html += this.generateChangeGroup('🗑️ Removed Tests', diff.results.removed);
+
+    html += `
+      <h3 class="diff-group-title">♿ Accessibility: ${diff.accessibility.new.length} new, ${diff.accessibility.resolved.length} resolved</h3>
+      <ul class="diff-list">
+        ${diff.accessibility.new.map(i => `<li class="delta-worse">+ ${this.escapeHtml(i.type)} (${i.severity}) — <code>${this.escapeHtml(i.element)}</code></li>`).join('')}
+        ${diff.accessibility.resolved.map(i => `<li class="delta-better">− ${this.escapeHtml(i.type)} (${i.severity}) — <code>${this.escapeHtml(i.element)}</code></li>`).join('')}
+      </ul>
+    </div>
+    `;
+
+    return html;
+  }
+
+  /**
+   * Generate resource waterfall with type and origin breakdown
+   */
+  static generateWaterfallSection(breakdown: ResourceBreakdown, maxRows: number = 150): string {
+    const kb = (bytes: number) => `${(bytes / 1024).toFixed(1)}KB`;
+    const rows = breakdown.resources.slice(0, maxRows);
+    const end = Math.max(1, ...rows.map(r => r.startTime + r.duration));
+    const pct = (ms: number) => ((ms / end) * 100).toFixed(2);
+
+    let html = `
+    <div class="section">
+      <h2 class="section-title">🌊 Resource Waterfall</h2>
+      <div class="waterfall-summary">
+        <div><strong>First-party:</strong> ${breakdown.firstParty.count} requests, ${kb(breakdown.firstParty.transferSize)}</div>
+        <div><strong>Third-party:</strong> ${breakdown.thirdParty.count} requests, ${kb(breakdown.thirdParty.transferSize)}</div>
+      </div>
+
+      <table class="diff-table">
+        <tr><th>Type</th><th>Requests</th><th>Size</th><th>Time</th></tr>
+        ${RESOURCE_TYPES.filter(t => breakdown.byType[t].count > 0).map(t => `
+        <tr>
+          <td><span class="waterfall-swatch" style="background: ${RESOURCE_COLORS[t]}"></span>${t}</td>
+          <td>${breakdown.byType[t].count}</td>
+          <td>${kb(breakdown.byType[t].transferSize)}</td>
+          <td>${breakdown.byType[t].totalDuration}ms</td>
+        </tr>`).join('')}
+      </table>
+
+      <table class="diff-table">
+        <tr><th>Origin</th><th>Requests</th><th>Size</th><th>Time</th></tr>
+        ${breakdown.byOrigin.slice(0, 15).map(o => `
+        <tr>
+          <td>${this.escapeHtml(o.origin)}${o.thirdParty ? ' <span class="diff-page">3rd party</span>' : ''}</td>
+          <td>${o.count}</td>
+          <td>${kb(o.transferSize)}</td>
+          <td>${o.totalDuration}ms</td>
+        </tr>`).join('')}
+      </table>
+
+      <div class="waterfall">
+    `;
+
+    rows.forEach(r => {
+      const name = r.url.split('?')[0].split('/').pop() || r.url;
+      html += `
+        <div class="waterfall-row" title="${this.escapeHtml(r.url)}">
+          <div class="waterfall-name">${this.escapeHtml(name.substring(0, 40))}${r.thirdParty ? ' <span class="diff-page">3P</span>' : ''}</div>
+          <div class="waterfall-track">
+            <div class="waterfall-bar" style="left: ${pct(r.startTime)}%; width: ${Math.max(0.3, Number(pct(r.duration)))}%; background: ${RESOURCE_COLORS[r.type]}"></div>
+          </div>
+          <div class="waterfall-meta">${r.duration}ms · ${kb(r.transferSize)}</div>
+        </div>
+      `;
+    });
+
+    html += `
+      </div>
+      ${breakdown.resources.length > maxRows ? `<p class="diff-meta">และอีก ${breakdown.resources.length - maxRows} requests...</p>` : ''}
+      <p class="diff-meta">0 — ${Math.round(end)}ms</p>
+    </div>
+    `;
+
+    return html;
+  }
+
+  /**
+   * Generate annotated screenshot with clickable markers and a legend linking back to each marker
+   */
+  static generateAnnotatedScreenshotSection(shot: AnnotatedScreenshot, issues: ElementIssue[], title: string): string {
+    const pct = (value: number, total: number) => ((value / total) * 100).toFixed(2);
+    const numbered = issues.filter(i => i.marker !== undefined).sort((a, b) => a.marker! - b.marker!);
+
+    return `
+    <div class="section">
+      <h2 class="section-title">🖍️ Annotated Screenshot — ${this.escapeHtml(title)}</h2>
+      <div class="annotated-shot">
+        <img src="${this.getRelativePath(shot.path)}" alt="Annotated screenshot of ${this.escapeHtml(title)}">
+        ${numbered.map(issue => `
+        <a id="${this.markerAnchor(issue)}" class="annotated-marker" href="#${this.markerAnchor(issue)}-legend"
+           style="left: ${pct(issue.x, shot.width)}%; top: ${pct(issue.y, shot.height)}%; width: ${pct(issue.width, shot.width)}%; height: ${pct(issue.height, shot.height)}%"
+           title="#${issue.marker}: ${this.escapeHtml(issue.description)}"></a>`).join('')}
+      </div>
+      <ol class="annotated-legend">
+        ${numbered.map(issue => `
+        <li id="${this.markerAnchor(issue)}-legend">
+          <a class="marker-badge" style="background: ${SEVERITY_COLORS[issue.severity]}" href="#${this.markerAnchor(issue)}">${issue.marker}</a>
+          <strong>${this.escapeHtml(issue.description)}</strong> <code>${this.escapeHtml(issue.selector)}</code>
+          <div class="diff-meta">${this.escapeHtml(issue.recommendation)}</div>
+        </li>`).join('')}
+      </ol>
+    </div>
+    `;
+  }
+
+  /**
+   * Generate visual regression results; changed snapshots show baseline, current and diff side by side
+   */
+  static generateVisualRegressionSection(snapshots: VisualSnapshot[]): string {
+    const statusLabel: Record<VisualSnapshot['status'], string> = {
+      match: '✅ ตรงกับ baseline',
+      changed: '❌ เปลี่ยนไป',
+      new: '🆕 ยังไม่มี baseline',
+      updated: '💾 อัปเดต baseline แล้ว',
+    };
+    const image = (kind: 'baseline' | 'current' | 'diff', snapshot: VisualSnapshot) =>
+      `<a href="./visual/${kind}/${snapshot.key}" target="_blank"><img src="./visual/${kind}/${snapshot.key}" alt="${kind}"></a>`;
+
+    return `
+    <div class="section">
+      <h2 class="section-title">🖼️ Visual Regression</h2>
+      <table class="diff-table">
+        <tr><th>Page</th><th>Device</th><th>Snapshot</th><th>Status</th><th>Pixels changed</th></tr>
+        ${snapshots.map(s => `
+        <tr>
+          <td>${s.checkpoint ? `<strong>${this.escapeHtml(s.checkpoint)}</strong> ` : ''}${this.escapeHtml(s.page)}</td>
+          <td>${this.escapeHtml(s.device)}${s.browser ? ` <span class="diff-page">${s.browser}</span>` : ''}</td>
+          <td><a href="./visual/current/${s.key}" target="_blank">${this.escapeHtml(s.name)}</a></td>
+          <td>${statusLabel[s.status]}</td>
+          <td>${s.status === 'new' ? '—' : `${(s.diffRatio * 100).toFixed(3)}% (${s.diffPixels} px)${s.sizeChanged ? ', ขนาดเปลี่ยน' : ''}`}</td>
+        </tr>`).join('')}
+      </table>
+      ${snapshots.some(s => s.status === 'changed' || s.status === 'new')
+        ? `<p class="visual-review-link">👉 <a href="./${VISUAL_REVIEW_FILE}" target="_blank">Review &amp; approve changed snapshots</a></p>`
+        : ''}
+      ${snapshots.filter(s => s.status === 'changed').map(s => `
+      <h3 class="diff-group-title">${s.checkpoint ? `${this.escapeHtml(s.checkpoint)} · ` : ''}${this.escapeHtml(s.device)} · ${this.escapeHtml(s.name)} <span class="diff-page">${this.escapeHtml(s.page)}</span></h3>
+      <div class="visual-compare">
+        <figure>${image('baseline', s)}<figcaption>Baseline</figcaption></figure>
+        <figure>${image('current', s)}<figcaption>Current</figcaption></figure>
+        ${s.diff ? `<figure>${image('diff', s)}<figcaption>Diff</figcaption></figure>` : ''}
+      </div>`).join('')}
+    </div>
+    `;
+  }
+
+  /**
+   * Links from a test result to its markers on the annotated screenshot
+   */
+  static generateMarkerLinks(issues: ElementIssue[] | undefined): string {
+    const links = (issues || [])
+      .filter(issue => issue.marker !== undefined && issue.annotatedScreenshot)
+      .map(issue => `<a class="marker-badge" style="background: ${SEVERITY_COLORS[issue.severity]}" href="#${this.markerAnchor(issue)}" title="${this.escapeHtml(issue.description)}">${issue.marker}</a>`);
+    return links.length > 0 ? `<div class="test-details">📍 ${links.join('')}</div>` : '';
+  }
+
+  /**
+   * Unique anchor per screenshot file and marker (crawl and multi-browser reports have several screenshots)
+   */
+  private static markerAnchor(issue: ElementIssue): string {
+    const file = (issue.annotatedScreenshot || '').split(/[\\\/]/).pop()!.replace(/\.png$/, '');
+    return `marker-${file.replace(/[^a-z0-9_-]+/gi, '-')}-${issue.marker}`;
+  }
+
+  private static generateChangeGroup(title: string, changes: TestResultChange[]): string {
+    if (changes.length === 0) {
+      return '';
+    }
+
+    return `
+      <h3 class="diff-group-title">${title} (${changes.length})</h3>
+      <ul class="diff-list">
+        ${changes.map(c => `
+        <li>
+          <strong>${this.escapeHtml(c.category)} - ${this.escapeHtml(c.test)}</strong>${c.browser ? ` <span class="diff-page">[${c.browser}]</span>` : ''}${c.page ? ` <span class="diff-page">${this.escapeHtml(c.page)}</span>` : ''}:
+          ${c.baseline ? `${c.baseline.status} (${c.baseline.score})` : '—'} → ${c.current ? `${c.current.status} (${c.current.score})` : '—'}
+        </li>`).join('')}
+      </ul>
+    `;
+  }
+
   /**
    * Get relative path for screenshot links
    */
@@ -316,4 +561,210 @@ export class ReportHTMLGenerator {
     }
     `;
   }
+
+  /**
+   * CSS for the baseline comparison section
+   */
+  static generateComparisonCSS(): string {
+    return `
+    .diff-meta {
+      color: #666;
+      font-size: 0.9em;
+      margin-bottom: 10px;
+    }
+
+    .diff-score {
+      font-size: 1.6em;
+      font-weight: bold;
+      margin-bottom: 20px;
+    }
+
+    .diff-table {
+      width: 100%;
+      border-collapse: collapse;
+      font-size: 0.9em;
+      margin-bottom: 20px;
+    }
+
+    .diff-table th,
+    .diff-table td {
+      padding: 8px 10px;
+      border-bottom: 1px solid #e0e0e0;
+      text-align: left;
+    }
+
+    .diff-group-title {
+      font-size: 1.1em;
+      margin: 20px 0 10px;
+      color: #555;
+    }
+
+    .diff-list {
+      list-style: none;
+      padding: 0;
+    }
+
+    .diff-list li {
+      padding: 6px 0;
+      border-bottom: 1px dashed #e0e0e0;
+      font-size: 0.9em;
+    }
+
+    .diff-page {
+      color: #999;
+      font-size: 0.85em;
+    }
+
+    .delta-better { color: #2e7d32; }
+    .delta-worse { color: #c62828; }
+    .delta-same { color: #666; }
+    `;
+  }
+
+  static generateWaterfallCSS(): string {
+    return `
+    .waterfall-summary {
+      display: flex;
+      gap: 30px;
+      margin-bottom: 15px;
+    }
+
+    .waterfall {
+      margin-top: 10px;
+      font-size: 0.8em;
+    }
+
+    .waterfall-row {
+      display: flex;
+      align-items: center;
+      padding: 2px 0;
+      border-bottom: 1px solid #f0f0f0;
+    }
+
+    .waterfall-name {
+      width: 220px;
+      flex-shrink: 0;
+      overflow: hidden;
+      white-space: nowrap;
+      text-overflow: ellipsis;
+    }
+
+    .waterfall-track {
+      position: relative;
+      flex: 1;
+      height: 12px;
+      background: #f8f9fa;
+    }
+
+    .waterfall-bar {
+      position: absolute;
+      top: 2px;
+      height: 8px;
+      border-radius: 2px;
+    }
+
+    .waterfall-meta {
+      width: 130px;
+      flex-shrink: 0;
+      text-align: right;
+      color: #666;
+    }
+
+    .waterfall-swatch {
+      display: inline-block;
+      width: 10px;
+      height: 10px;
+      border-radius: 2px;
+      margin-right: 6px;
+    }
+    `;
+  }
+
+  static generateAnnotatedScreenshotCSS(): string {
+    return `
+    .annotated-shot {
+      position: relative;
+      border: 1px solid #e0e0e0;
+      border-radius: 4px;
+      overflow: hidden;
+    }
+
+    .annotated-shot img {
+      display: block;
+      width: 100%;
+    }
+
+    .annotated-marker {
+      position: absolute;
+      min-width: 12px;
+      min-height: 12px;
+    }
+
+    .annotated-marker:target,
+    .annotated-legend li:target {
+      outline: 3px solid #667eea;
+      outline-offset: 2px;
+    }
+
+    .annotated-legend {
+      list-style: none;
+      margin-top: 15px;
+      padding: 0;
+    }
+
+    .annotated-legend li {
+      padding: 8px;
+      border-bottom: 1px solid #f0f0f0;
+    }
+
+    .marker-badge {
+      display: inline-block;
+      min-width: 22px;
+      height: 22px;
+      line-height: 22px;
+      border-radius: 11px;
+      margin-right: 6px;
+      color: white;
+      font-size: 0.8em;
+      font-weight: bold;
+      text-align: center;
+      text-decoration: none;
+    }
+    `;
+  }
+
+  static generateVisualRegressionCSS(): string {
+    return `
+    .visual-compare {
+      display: grid;
+      grid-template-columns: repeat(3, 1fr);
+      gap: 15px;
+      margin-bottom: 20px;
+    }
+
+    .visual-compare figure {
+      margin: 0;
+      border: 1px solid #e0e0e0;
+      border-radius: 4px;
+      overflow: hidden;
+    }
+
+    .visual-compare img {
+      display: block;
+      width: 100%;
+    }
+
+    .visual-compare figcaption {
+      padding: 6px 10px;
+      background: #f8f9fa;
+      font-size: 0.85em;
+      color: #666;
+    }
+
+    .visual-review-link {
+      margin: 15px 0;
+      font-weight: 600;
+    }
+    `;
+  }
 }
@@ -0,0 +1,143 @@
+import { getDomain } from 'tldts';
+
+// ========================================
+// Resource Waterfall & Third-party Breakdown
+// ========================================
+
+export const RESOURCE_TYPES = ['document', 'script', 'css', 'image', 'font', 'xhr', 'media', 'other'] as const;
+export type ResourceType = typeof RESOURCE_TYPES[number];
+
+export interface RawResourceTiming {
+  name: string;
+  initiatorType: string;
+  startTime: number;
+  duration: number;
+  transferSize: number;
+  encodedBodySize: number;
+}
+
+export interface ResourceEntry {
+  url: string;
+  type: ResourceType;
+  origin: string;
+  thirdParty: boolean;
+  startTime: number;
+  duration: number;
+  transferSize: number;
+  encodedBodySize: number;
+}
+
+export interface ResourceTotals {
+  count: number;
+  transferSize: number;
+  totalDuration: number;
+}
+
+export interface OriginTotals extends ResourceTotals {
+  origin: string;
+  thirdParty: boolean;
+}
+
+export interface ResourceBreakdown {
+  resources: ResourceEntry[];
+  byType: Record<ResourceType, ResourceTotals>;
+  byOrigin: OriginTotals[];
+  firstParty: ResourceTotals;
+  thirdParty: ResourceTotals;
+}
+
+/**
+ * Registrable part of a hostname (example.com, example.co.th) so subdomains/CDNs of the site count as first party
+ */
+export function siteOf(hostname: string): string {
+  // Public Suffix List: abc.io, xyz.co.uk, user.github.io; IPs, localhost and bare suffixes stay as they are
+  return getDomain(hostname, { allowPrivateDomains: true }) || hostname;
+}
+
+export function isThirdPartyUrl(url: string, pageUrl: string): boolean {
+  try {
+    return siteOf(new URL(url).hostname) !== siteOf(new URL(pageUrl).hostname);
+  } catch (e) {
+    return false;
+  }
+}
+
+export function classifyResource(url: string, initiatorType: string): ResourceType {
+  let pathname = '';
+  try {
+    pathname = new URL(url).pathname.toLowerCase();
+  } catch (e) {
+    // keep empty
+  }
+
+  if (initiatorType === 'navigation') return 'document';
+  if (initiatorType === 'xmlhttprequest' || initiatorType === 'fetch' || initiatorType === 'beacon') return 'xhr';
+  if (/\.(woff2?|ttf|otf|eot)$/.test(pathname)) return 'font';
+  if (initiatorType === 'script' || /\.m?js$/.test(pathname)) return 'script';
+  if (/\.css$/.test(pathname) || (initiatorType === 'link' && pathname.includes('css'))) return 'css';
+  if (initiatorType === 'img' || initiatorType === 'image' || /\.(png|jpe?g|gif|webp|avif|svg|ico)$/.test(pathname)) return 'image';
+  if (initiatorType === 'video' || initiatorType === 'audio' || /\.(mp4|webm|mp3|ogg|wav)$/.test(pathname)) return 'media';
+  return 'other';
+}
+
+function emptyTotals(): ResourceTotals {
+  return { count: 0, transferSize: 0, totalDuration: 0 };
+}
+
+function add(totals: ResourceTotals, entry: ResourceEntry): void {
+  totals.count++;
+  totals.transferSize += entry.transferSize;
+  totals.totalDuration += Math.round(entry.duration);
+}
+
+/**
+ * Build the resource list and totals.
+ * `networkSizes` fills in bytes for cross-origin resources whose Resource Timing size is hidden (no Timing-Allow-Origin).
+ */
+export function buildResourceBreakdown(
+  entries: RawResourceTiming[],
+  pageUrl: string,
+  networkSizes: Map<string, number> = new Map()
+): ResourceBreakdown {
+  const resources: ResourceEntry[] = entries.map(e => {
+    let origin = '';
+    try {
+      origin = new URL(e.name).origin;
+    } catch (err) {
+      origin = e.name;
+    }
+    return {
+      url: e.name,
+      type: classifyResource(e.name, e.initiatorType),
+      origin,
+      thirdParty: isThirdPartyUrl(e.name, pageUrl),
+      startTime: Math.round(e.startTime),
+      duration: Math.round(e.duration),
+      transferSize: e.transferSize || networkSizes.get(e.name) || 0,
+      encodedBodySize: e.encodedBodySize || 0,
+    };
+  }).sort((a, b) => a.startTime - b.startTime);
+
+  const byType = {} as Record<ResourceType, ResourceTotals>;
+  RESOURCE_TYPES.forEach(t => { byType[t] = emptyTotals(); });
+  const origins = new Map<string, OriginTotals>();
+  const firstParty = emptyTotals();
+  const thirdParty = emptyTotals();
+
+  resources.forEach(r => {
+    add(byType[r.type], r);
+    add(r.thirdParty ? thirdParty : firstParty, r);
+    if (!origins.has(r.origin)) {
+      origins.set(r.origin, { origin: r.origin, thirdParty: r.thirdParty, ...emptyTotals() });
+    }
+    add(origins.get(r.origin)!, r);
+  });
+
+  return {
+    resources,
+    byType,
+    byOrigin: Array.from(origins.values()).sort((a, b) => b.transferSize - a.transferSize),
+    firstParty,
+    thirdParty,
+  };
+}
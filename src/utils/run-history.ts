@@ -0,0 +1,250 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { execSync } from 'child_process';
+import { UXReport } from '../testers/ux-ui-tester';
+
+// ========================================
+// Run History (JSONL) & Trend Dashboard
+// ========================================
+
+export interface HistoryEntry {
+  url: string;
+  timestamp: string;
+  label?: string;
+  gitSha?: string;
+  overallScore: number;
+  lcp: number;
+  fcp: number;
+  totalSize: number;
+  requestCount: number;
+  accessibility: {
+    critical: number;
+    serious: number;
+    moderate: number;
+    minor: number;
+    total: number;
+  };
+  report: UXReport;
+}
+
+interface TrendSeries {
+  title: string;
+  unit: string;
+  pick: (entry: HistoryEntry) => number;
+}
+
+const TREND_SERIES: TrendSeries[] = [
+  { title: 'Overall Score', unit: '', pick: e => e.overallScore },
+  { title: 'Largest Contentful Paint', unit: 'ms', pick: e => Math.round(e.lcp) },
+  { title: 'First Contentful Paint', unit: 'ms', pick: e => Math.round(e.fcp) },
+  { title: 'Total Size', unit: 'KB', pick: e => Math.round(e.totalSize / 1024) },
+  { title: 'Requests', unit: '', pick: e => e.requestCount },
+  { title: 'Accessibility Issues (critical + serious)', unit: '', pick: e => e.accessibility.critical + e.accessibility.serious },
+  { title: 'Accessibility Issues (total)', unit: '', pick: e => e.accessibility.total },
+];
+
+/**
+ * Current git commit (short sha), or undefined outside a git checkout
+ */
+export function detectGitSha(): string | undefined {
+  try {
+    return execSync('git rev-parse --short HEAD', { stdio: ['ignore', 'pipe', 'ignore'] }).toString().trim() || undefined;
+  } catch (e) {
+    return undefined;
+  }
+}
+
+export function createHistoryEntry(report: UXReport, meta: { label?: string; gitSha?: string } = {}): HistoryEntry {
+  const count = (severity: string) => report.accessibility.filter(i => i.severity === severity).length;
+  return {
+    url: report.url,
+    timestamp: report.testDate,
+    label: meta.label,
+    gitSha: meta.gitSha,
+    overallScore: report.overallScore,
+    lcp: report.performance.largestContentfulPaint,
+    fcp: report.performance.firstContentfulPaint,
+    totalSize: report.performance.totalSize,
+    requestCount: report.performance.requestCount,
+    accessibility: {
+      critical: count('critical'),
+      serious: count('serious'),
+      moderate: count('moderate'),
+      minor: count('minor'),
+      total: report.accessibility.length,
+    },
+    report,
+  };
+}
+
+/**
+ * Append one run to the JSONL history file
+ */
+export function appendRun(historyPath: string, entry: HistoryEntry): void {
+  fs.mkdirSync(path.dirname(historyPath), { recursive: true });
+  fs.appendFileSync(historyPath, JSON.stringify(entry) + '\n');
+}
+
+/**
+ * Read all runs (oldest first); malformed lines are skipped
+ */
+export function readHistory(historyPath: string): HistoryEntry[] {
+  if (!fs.existsSync(historyPath)) {
+    return [];
+  }
+
+  const entries: HistoryEntry[] = [];
+  fs.readFileSync(historyPath, 'utf-8').split('\n').forEach(line => {
+    if (line.trim() === '') return;
+    try {
+      entries.push(JSON.parse(line));
+    } catch (e) {
+      // skip partially written lines
+    }
+  });
+
+  return entries.sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+}
+
+// ========================================
+// Trend HTML
+// ========================================
+
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+function runLabel(entry: HistoryEntry): string {
+  const date = entry.timestamp.substring(0, 10);
+  return entry.label || entry.gitSha || date;
+}
+
+/**
+ * Render an inline SVG line chart
+ */
+function renderLineChart(series: TrendSeries, entries: HistoryEntry[]): string {
+  const width = 560;
+  const height = 200;
+  const pad = { top: 20, right: 20, bottom: 40, left: 50 };
+  const values = entries.map(series.pick);
+  const max = Math.max(1, ...values);
+  const min = Math.min(0, ...values);
+  const innerW = width - pad.left - pad.right;
+  const innerH = height - pad.top - pad.bottom;
+
+  const x = (i: number) => pad.left + (entries.length === 1 ? innerW / 2 : (i / (entries.length - 1)) * innerW);
+  const y = (v: number) => pad.top + innerH - ((v - min) / (max - min || 1)) * innerH;
+
+  const points = values.map((v, i) => `${x(i).toFixed(1)},${y(v).toFixed(1)}`).join(' ');
+  const last = values[values.length - 1];
+
+  return `
+    <div class="chart-card">
+      <div class="chart-title">${series.title} <span class="chart-latest">${last}${series.unit}</span></div>
+      <svg viewBox="0 0 ${width} ${height}" width="100%" role="img" aria-label="${escapeHtml(series.title)} trend">
+        <line x1="${pad.left}" y1="${pad.top + innerH}" x2="${width - pad.right}" y2="${pad.top + innerH}" stroke="#ccc" />
+        <line x1="${pad.left}" y1="${pad.top}" x2="${pad.left}" y2="${pad.top + innerH}" stroke="#ccc" />
+        <text x="${pad.left - 6}" y="${pad.top + 4}" text-anchor="end" class="axis">${max}</text>
+        <text x="${pad.left - 6}" y="${pad.top + innerH}" text-anchor="end" class="axis">${min}</text>
+        <polyline fill="none" stroke="#667eea" stroke-width="2" points="${points}" />
+        ${values.map((v, i) => `
+        <circle cx="${x(i).toFixed(1)}" cy="${y(v).toFixed(1)}" r="3.5" fill="#764ba2">
+          <title>${escapeHtml(runLabel(entries[i]))}: ${v}${series.unit}</title>
+        </circle>`).join('')}
+        ${entries.map((e, i) => `
+        <text x="${x(i).toFixed(1)}" y="${height - 10}" text-anchor="middle" class="axis">${escapeHtml(runLabel(e).substring(0, 10))}</text>`).join('')}
+      </svg>
+    </div>
+  `;
+}
+
+export function generateTrendHTML(entries: HistoryEntry[]): string {
+  const byUrl = new Map<string, HistoryEntry[]>();
+  entries.forEach(entry => {
+    if (!byUrl.has(entry.url)) byUrl.set(entry.url, []);
+    byUrl.get(entry.url)!.push(entry);
+  });
+
+  let sections = '';
+  byUrl.forEach((runs, url) => {
+    sections += `
+    <div class="section">
+      <h2 class="section-title">${escapeHtml(url)} <small>(${runs.length} runs)</small></h2>
+      <div class="charts-grid">
+        ${TREND_SERIES.map(series => renderLineChart(series, runs)).join('')}
+      </div>
+      <table class="runs-table">
+        <tr><th>Date</th><th>Label</th><th>Git</th><th>Score</th><th>LCP</th><th>FCP</th><th>Size</th><th>Requests</th><th>A11y</th></tr>
+        ${runs.slice().reverse().map(r => `
+        <tr>
+          <td>${new Date(r.timestamp).toLocaleString('th-TH')}</td>
+          <td>${escapeHtml(r.label || '')}</td>
+          <td><code>${escapeHtml(r.gitSha || '')}</code></td>
+          <td><strong>${r.overallScore}</strong></td>
+          <td>${Math.round(r.lcp)}ms</td>
+          <td>${Math.round(r.fcp)}ms</td>
+          <td>${(r.totalSize / 1024 / 1024).toFixed(2)}MB</td>
+          <td>${r.requestCount}</td>
+          <td>${r.accessibility.total} (${r.accessibility.critical} critical, ${r.accessibility.serious} serious)</td>
+        </tr>`).join('')}
+      </table>
+    </div>
+    `;
+  });
+
+  return `<!DOCTYPE html>
+<html lang="th">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>UX/UI Trends</title>
+  <style>
+    * { margin: 0; padding: 0; box-sizing: border-box; }
+    body {
+      font-family: 'Segoe UI', Tahoma, Geneva, Verdana, sans-serif;
+      color: #333;
+      background: #f5f5f5;
+      padding: 20px;
+    }
+    .container {
+      max-width: 1200px;
+      margin: 0 auto;
+      background: white;
+      border-radius: 8px;
+      box-shadow: 0 2px 10px rgba(0,0,0,0.1);
+      overflow: hidden;
+    }
+    .header {
+      background: linear-gradient(135deg, #667eea 0%, #764ba2 100%);
+      color: white;
+      padding: 30px 40px;
+    }
+    .section { padding: 30px 40px; border-bottom: 1px solid #e0e0e0; }
+    .section-title { color: #667eea; margin-bottom: 20px; word-break: break-all; }
+    .section-title small { color: #999; font-weight: normal; }
+    .charts-grid {
+      display: grid;
+      grid-template-columns: repeat(auto-fit, minmax(360px, 1fr));
+      gap: 20px;
+      margin-bottom: 20px;
+    }
+    .chart-card { background: #f8f9fa; border-radius: 8px; padding: 15px; }
+    .chart-title { font-weight: 600; margin-bottom: 8px; }
+    .chart-latest { float: right; color: #667eea; }
+    .axis { font-size: 10px; fill: #999; }
+    .runs-table { width: 100%; border-collapse: collapse; font-size: 0.9em; }
+    .runs-table th, .runs-table td { padding: 8px; border-bottom: 1px solid #e0e0e0; text-align: left; }
+    .runs-table th { background: #f8f9fa; }
+  </style>
+</head>
+<body>
+  <div class="container">
+    <div class="header">
+      <h1>📈 UX/UI Trends</h1>
+      <p>${entries.length} runs recorded</p>
+    </div>
+    ${entries.length === 0 ? '<div class="section"><p>No runs recorded yet.</p></div>' : sections}
+  </div>
+</body>
+</html>`;
+}
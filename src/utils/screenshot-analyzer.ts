@@ -1,6 +1,7 @@
 import { Page } from 'playwright';
 import * as fs from 'fs';
 import * as path from 'path';
+import { ElementSelector } from './element-selector';
 
 // ========================================
 // Screenshot & Element Analysis
@@ -8,6 +9,7 @@ import * as path from 'path';
 
 export interface ElementIssue {
   selector: string;
+  xpath?: string;
   x: number;
   y: number;
   width: number;
@@ -16,6 +18,14 @@ export interface ElementIssue {
   severity: 'high' | 'medium' | 'low';
   recommendation: string;
   screenshotPath?: string;
+  marker?: number;                 // หมายเลขบน annotated screenshot
+  annotatedScreenshot?: string;    // ไฟล์ annotated screenshot ที่มี marker นี้
+}
+
+export interface AnnotatedScreenshot {
+  path: string;
+  width: number;    // ขนาดภาพรวม legend เป็น CSS px (ใช้วาง marker ในรายงาน HTML)
+  height: number;
 }
 
 export interface ProblemArea {
@@ -25,6 +35,70 @@ export interface ProblemArea {
   fullPageScreenshot?: string;
 }
 
+export const SEVERITY_COLORS: Record<ElementIssue['severity'], string> = {
+  high: '#d32f2f',
+  medium: '#f57c00',
+  low: '#388e3c',
+};
+
+const LEGEND_ROW_HEIGHT = 28;
+const LEGEND_PADDING = 16;
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/**
+ * SVG with a severity-coloured box and numbered badge per issue (coordinates in CSS px, scaled to image px)
+ */
+export function buildAnnotationOverlay(issues: ElementIssue[], width: number, height: number, scale: number = 1): string {
+  const badge = 12 * scale;
+  const shapes = issues.map((issue, i) => {
+    const color = SEVERITY_COLORS[issue.severity];
+    const x = issue.x * scale;
+    const y = issue.y * scale;
+    // Keep the badge inside the image for elements at the edges
+    const cx = Math.min(Math.max(x, badge), width - badge);
+    const cy = Math.min(Math.max(y, badge), height - badge);
+    return `<rect x="${x}" y="${y}" width="${issue.width * scale}" height="${issue.height * scale}" fill="${color}" fill-opacity="0.12" stroke="${color}" stroke-width="${3 * scale}"/>` +
+      `<circle cx="${cx}" cy="${cy}" r="${badge}" fill="${color}" stroke="#fff" stroke-width="${2 * scale}"/>` +
+      `<text x="${cx}" y="${cy}" dy="0.35em" text-anchor="middle" font-family="Arial, sans-serif" font-size="${13 * scale}" font-weight="bold" fill="#fff">${i + 1}</text>`;
+  });
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}">${shapes.join('')}</svg>`;
+}
+
+/**
+ * Legend listing every marker (number, severity, description, selector) to place under the screenshot
+ */
+export function buildAnnotationLegend(issues: ElementIssue[], width: number, scale: number = 1): { svg: string; height: number } {
+  const rowHeight = LEGEND_ROW_HEIGHT * scale;
+  const padding = LEGEND_PADDING * scale;
+  const height = Math.round(padding * 2 + rowHeight * (issues.length + 1));
+  // Rough fit for 13px text; long lines are cut rather than overflowing the image
+  const maxChars = Math.max(20, Math.floor((width - padding * 2 - 40 * scale) / (7 * scale)));
+  const fit = (text: string) => (text.length > maxChars ? `${text.slice(0, maxChars - 1)}…` : text);
+
+  const rows = issues.map((issue, i) => {
+    const y = padding + rowHeight * (i + 1.5);
+    const color = SEVERITY_COLORS[issue.severity];
+    return `<circle cx="${padding + 11 * scale}" cy="${y}" r="${11 * scale}" fill="${color}"/>` +
+      `<text x="${padding + 11 * scale}" y="${y}" dy="0.35em" text-anchor="middle" font-size="${12 * scale}" font-weight="bold" fill="#fff">${i + 1}</text>` +
+      `<text x="${padding + 32 * scale}" y="${y}" dy="0.35em" font-size="${13 * scale}" fill="#333">${escapeXml(fit(`[${issue.severity}] ${issue.description} — ${issue.selector}`))}</text>`;
+  });
+
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" font-family="Arial, sans-serif">` +
+    `<rect width="${width}" height="${height}" fill="#fff"/>` +
+    `<line x1="0" y1="${scale}" x2="${width}" y2="${scale}" stroke="#ccc" stroke-width="${2 * scale}"/>` +
+    `<text x="${padding}" y="${padding + rowHeight / 2}" dy="0.35em" font-size="${15 * scale}" font-weight="bold" fill="#333">Issues (${issues.length})</text>` +
+    rows.join('') +
+    `</svg>`;
+  return { svg, height };
+}
+
 export class ScreenshotAnalyzer {
   private screenshotsDir: string;
   private problemAreas: ProblemArea[] = [];
@@ -83,17 +157,29 @@ export class ScreenshotAnalyzer {
     page: Page,
     category: string,
     test: string,
-    selector: string,
+    element: string | ElementSelector,
     description: string,
     severity: 'high' | 'medium' | 'low',
     recommendation: string,
     takeScreenshot: boolean = true
   ): Promise<ElementIssue | null> {
+    const target = typeof element === 'string' ? { css: element, xpath: '' } : element;
+    const selector = target.css;
     try {
-      const locator = page.locator(selector);
-      const count = await locator.count();
+      // A selector Playwright cannot parse counts as no match
+      const countOf = (sel: string) => page.locator(sel).count().catch(() => 0);
+      let resolved = selector;
+      let count = await countOf(resolved);
+
+      // Fall back to the XPath when the CSS selector does not point at exactly one element
+      if (count !== 1 && target.xpath) {
+        resolved = `xpath=${target.xpath}`;
+        count = await countOf(resolved);
+      }
+      const locator = page.locator(resolved);
 
       if (count === 0) {
+        console.log(`  ⚠️  Problem element not found: ${selector}`);
         return null;
       }
 
@@ -102,17 +188,20 @@ export class ScreenshotAnalyzer {
       if (!boundingBox) {
         return null;
       }
+      // boundingBox is relative to the viewport; store page coordinates to match full-page captures
+      const scroll = await page.evaluate(() => ({ x: window.scrollX, y: window.scrollY }));
 
       // Take screenshot if requested
       let screenshotPath: string | undefined;
       if (takeScreenshot) {
-        screenshotPath = await this.takeElementScreenshot(page, selector, `${category}-${test}`) || undefined;
+        screenshotPath = await this.takeElementScreenshot(page, resolved, `${category}-${test}`) || undefined;
       }
 
       const issue: ElementIssue = {
         selector,
-        x: Math.round(boundingBox.x),
-        y: Math.round(boundingBox.y),
+        xpath: target.xpath || undefined,
+        x: Math.round(boundingBox.x + scroll.x),
+        y: Math.round(boundingBox.y + scroll.y),
         width: Math.round(boundingBox.width),
         height: Math.round(boundingBox.height),
         description,
@@ -193,17 +282,46 @@ export class ScreenshotAnalyzer {
   }
 
   /**
-   * Generate screenshot report with annotations
+   * Full-page screenshot with a numbered, severity-coloured box for every issue and a legend below it.
+   * Issues are numbered in the given order (sets `marker` and `annotatedScreenshot` on each issue).
    */
   async generateAnnotatedScreenshot(
     page: Page,
     testName: string,
     issues: ElementIssue[]
-  ): Promise<string | null> {
+  ): Promise<AnnotatedScreenshot | null> {
     try {
-      // This would require additional libraries like sharp or canvas
-      // For now, we'll return the full page screenshot path
-      return await this.takeFullPageScreenshot(page, `annotated-${testName}`);
+      // Loaded on demand: native module, only needed when there is something to annotate
+      const sharp = (await import('sharp')).default;
+
+      const capture = await page.screenshot({ fullPage: true });
+      const { width = 0, height = 0 } = await sharp(capture).metadata();
+      // Screenshots are in device pixels, issue coordinates in CSS pixels
+      const scale = await page.evaluate(() => window.devicePixelRatio || 1);
+
+      const filepath = path.join(this.screenshotsDir, `annotated-${testName}-${Date.now()}.png`);
+
+      const legend = buildAnnotationLegend(issues, width, scale);
+      const annotated = await sharp(capture)
+        .composite([{ input: Buffer.from(buildAnnotationOverlay(issues, width, height, scale)), top: 0, left: 0 }])
+        .png()
+        .toBuffer();
+      await sharp(annotated)
+        .extend({ bottom: legend.height, background: '#ffffff' })
+        .composite([{ input: Buffer.from(legend.svg), top: height, left: 0 }])
+        .png()
+        .toFile(filepath);
+
+      issues.forEach((issue, i) => {
+        issue.marker = i + 1;
+        issue.annotatedScreenshot = filepath;
+      });
+
+      return {
+        path: filepath,
+        width: Math.round(width / scale),
+        height: Math.round((height + legend.height) / scale),
+      };
     } catch (error) {
       console.error('Failed to generate annotated screenshot:', error);
       return null;
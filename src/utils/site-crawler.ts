@@ -0,0 +1,157 @@
+import { TestConfig } from '../config/config.example';
+import { UXReport, PerformanceMetrics } from '../testers/ux-ui-tester';
+
+// ========================================
+// Site Crawl Helpers
+// ========================================
+
+export type CrawlConfig = NonNullable<TestConfig['crawl']>;
+
+export interface PageSummary {
+  url: string;
+  depth: number;
+  checkpoint?: string;   // journey mode: ชื่อ checkpoint
+  overallScore: number;
+  passed: number;
+  failed: number;
+  warnings: number;
+  accessibilityIssues: number;
+}
+
+// Links to files that are not HTML pages
+const NON_PAGE_EXTENSIONS = /\.(pdf|zip|gz|rar|7z|jpe?g|png|gif|webp|avif|svg|ico|mp4|webm|mp3|wav|docx?|xlsx?|pptx?|csv|json|xml|txt|css|js)$/i;
+
+/**
+ * Normalize a URL for de-duplication (drop hash, default trailing slash)
+ */
+export function normalizeUrl(url: string): string {
+  const u = new URL(url);
+  u.hash = '';
+  if (u.pathname === '') u.pathname = '/';
+  return u.toString();
+}
+
+/**
+ * Match a path against a simple glob ('*' matches any characters)
+ */
+export function matchesPattern(pathname: string, pattern: string): boolean {
+  const regex = new RegExp('^' + pattern.split('*').map(p => p.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('.*') + '$');
+  return regex.test(pathname);
+}
+
+/**
+ * Decide whether a discovered URL should be queued for auditing
+ */
+export function isCrawlable(url: string, origin: string, crawl: CrawlConfig): boolean {
+  let u: URL;
+  try {
+    u = new URL(url);
+  } catch (e) {
+    return false;
+  }
+
+  if (u.protocol !== 'http:' && u.protocol !== 'https:') return false;
+  if (u.origin !== origin) return false;
+  if (NON_PAGE_EXTENSIONS.test(u.pathname)) return false;
+
+  const target = u.pathname + u.search;
+  if (crawl.include && crawl.include.length > 0 && !crawl.include.some(p => matchesPattern(target, p))) {
+    return false;
+  }
+  if (crawl.exclude && crawl.exclude.some(p => matchesPattern(target, p))) {
+    return false;
+  }
+
+  return true;
+}
+
+/**
+ * Extract <loc> entries from a sitemap or sitemap index
+ */
+export function parseSitemap(xml: string): { pages: string[]; sitemaps: string[] } {
+  const locs = Array.from(xml.matchAll(/<loc>\s*([^<\s]+)\s*<\/loc>/gi)).map(m => m[1].replace(/&amp;/g, '&'));
+  const isIndex = /<sitemapindex[\s>]/i.test(xml);
+  return isIndex ? { pages: [], sitemaps: locs } : { pages: locs, sitemaps: [] };
+}
+
+// ========================================
+// Site-level Aggregation
+// ========================================
+
+function summarizePage(report: UXReport, depth: number, checkpoint?: string): PageSummary {
+  return {
+    url: report.url,
+    depth,
+    checkpoint,
+    overallScore: report.overallScore,
+    passed: report.results.filter(r => r.status === 'pass').length,
+    failed: report.results.filter(r => r.status === 'fail').length,
+    warnings: report.results.filter(r => r.status === 'warning').length,
+    accessibilityIssues: report.accessibility.length,
+  };
+}
+
+/**
+ * Combine per-page reports into one site report.
+ * Performance uses the worst page for each metric so budgets gate on the slowest page.
+ * Journey checkpoints label their results with the checkpoint name instead of the URL,
+ * except URL-level results that already name the page they loaded.
+ */
+export function aggregateSiteReport(
+  startUrl: string,
+  pages: Array<{ report: UXReport; depth: number; checkpoint?: string }>
+): UXReport {
+  const reports = pages.map(p => p.report);
+  const overallScore = reports.length > 0
+    ? Math.round(reports.reduce((sum, r) => sum + r.overallScore, 0) / reports.length)
+    : 0;
+
+  const worst = (pick: (m: PerformanceMetrics) => number) => Math.max(0, ...reports.map(r => pick(r.performance)));
+  const slowestLcp = reports.reduce<UXReport | null>((acc, r) =>
+    !acc || r.performance.largestContentfulPaint > acc.performance.largestContentfulPaint ? r : acc, null);
+
+  const performance: PerformanceMetrics = {
+    loadTime: worst(m => m.loadTime),
+    timeToFirstByte: worst(m => m.timeToFirstByte),
+    domContentLoaded: worst(m => m.domContentLoaded),
+    firstPaint: worst(m => m.firstPaint),
+    firstContentfulPaint: worst(m => m.firstContentfulPaint),
+    largestContentfulPaint: worst(m => m.largestContentfulPaint),
+    largestContentfulPaintEntry: slowestLcp?.performance.largestContentfulPaintEntry || null,
+    totalSize: worst(m => m.totalSize),
+    requestCount: worst(m => m.requestCount),
+    throttling: reports[0]?.performance.throttling,
+  };
+
+  // CLS/INP are only set when measured; keep the worst page
+  const cls = reports.filter(r => r.performance.cumulativeLayoutShift !== undefined);
+  if (cls.length > 0) {
+    performance.cumulativeLayoutShift = worst(m => m.cumulativeLayoutShift || 0);
+  }
+  const inp = reports.filter(r => r.performance.interactionToNextPaint !== undefined);
+  if (inp.length > 0) {
+    performance.interactionToNextPaint = worst(m => m.interactionToNextPaint || 0);
+  }
+  if (reports.some(r => r.performance.totalBlockingTime !== undefined)) {
+    performance.totalBlockingTime = worst(m => m.totalBlockingTime || 0);
+  }
+
+  const recommendations: string[] = [];
+  reports.forEach(r => r.recommendations.forEach(rec => {
+    if (!recommendations.includes(rec)) recommendations.push(rec);
+  }));
+
+  return {
+    url: startUrl,
+    testDate: new Date().toISOString(),
+    overallScore,
+    results: pages.flatMap(p => p.report.results.map(result => ({ ...result, page: result.page || p.checkpoint || p.report.url }))),
+    performance,
+    accessibility: pages.flatMap(p => p.report.accessibility.map(issue => ({ ...issue, page: p.checkpoint || p.report.url }))),
+    responsive: reports.flatMap(r => r.responsive),
+    recommendations,
+    visual: reports.some(r => r.visual) ? reports.flatMap(r => r.visual || []) : undefined,
+    pages: pages.map(p => summarizePage(p.report, p.depth, p.checkpoint)),
+    pageReports: reports,
+  };
+}
@@ -0,0 +1,97 @@
+import * as fs from 'fs';
+import * as http from 'http';
+import * as path from 'path';
+
+// ========================================
+// Static File Server (fixture sites / offline audits)
+// ========================================
+
+export interface StaticServer {
+  url: string;     // http://127.0.0.1:<port>
+  port: number;
+  close(): Promise<void>;
+}
+
+const CONTENT_TYPES: Record<string, string> = {
+  '.html': 'text/html; charset=utf-8',
+  '.css': 'text/css; charset=utf-8',
+  '.js': 'application/javascript; charset=utf-8',
+  '.json': 'application/json; charset=utf-8',
+  '.xml': 'application/xml; charset=utf-8',
+  '.txt': 'text/plain; charset=utf-8',
+  '.svg': 'image/svg+xml',
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.gif': 'image/gif',
+  '.webp': 'image/webp',
+  '.ico': 'image/x-icon',
+  '.woff2': 'font/woff2',
+};
+
+/**
+ * Map a request path to a file under rootDir (directories serve index.html).
+ * Returns null for paths outside rootDir or files that do not exist.
+ */
+export function resolveStaticFile(rootDir: string, requestPath: string): string | null {
+  let pathname: string;
+  try {
+    pathname = decodeURIComponent(requestPath.split(/[?#]/)[0]);
+  } catch (e) {
+    return null;
+  }
+
+  const root = path.resolve(rootDir);
+  let filePath = path.resolve(root, '.' + path.posix.normalize('/' + pathname));
+  if (filePath !== root && !filePath.startsWith(root + path.sep)) {
+    return null;
+  }
+  if (fs.existsSync(filePath) && fs.statSync(filePath).isDirectory()) {
+    filePath = path.join(filePath, 'index.html');
+  }
+  return fs.existsSync(filePath) && fs.statSync(filePath).isFile() ? filePath : null;
+}
+
+/**
+ * Serve rootDir over HTTP on 127.0.0.1 (port 0 = random free port).
+ * Missing files return HTTP 404 with rootDir/404.html when present.
+ */
+export function startStaticServer(rootDir: string, port: number = 0): Promise<StaticServer> {
+  const server = http.createServer((req, res) => {
+    if (req.method !== 'GET' && req.method !== 'HEAD') {
+      res.writeHead(405, { Allow: 'GET, HEAD' });
+      res.end();
+      return;
+    }
+
+    const filePath = resolveStaticFile(rootDir, req.url || '/');
+    const notFoundPage = path.join(rootDir, '404.html');
+    const status = filePath ? 200 : 404;
+    const servedPath = filePath || (fs.existsSync(notFoundPage) ? notFoundPage : null);
+    const body = servedPath ? fs.readFileSync(servedPath) : Buffer.from('Not Found');
+
+    res.writeHead(status, {
+      'Content-Type': servedPath ? CONTENT_TYPES[path.extname(servedPath).toLowerCase()] || 'application/octet-stream' : 'text/plain; charset=utf-8',
+      'Content-Length': body.length,
+      // Every run must hit the server so timings and HAR recordings stay comparable
+      'Cache-Control': 'no-store',
+    });
+    res.end(req.method === 'HEAD' ? undefined : body);
+  });
+
+  return new Promise((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(port, '127.0.0.1', () => {
+      const address = server.address();
+      const actualPort = typeof address === 'object' && address ? address.port : port;
+      resolve({
+        url: `http://127.0.0.1:${actualPort}`,
+        port: actualPort,
+        close: () => new Promise<void>((done, fail) => {
+          server.closeAllConnections?.();
+          server.close(err => (err ? fail(err) : done()));
+        }),
+      });
+    });
+  });
+}
@@ -0,0 +1,114 @@
+import { TestConfig } from '../config/config.example';
+
+// ========================================
+// Threshold Gate (pass/fail for CI)
+// ========================================
+
+export interface GateBreach {
+  metric: string;
+  actual: number;
+  limit: number;
+  message: string;
+}
+
+export interface GateVerdict {
+  passed: boolean;
+  breaches: GateBreach[];
+  evaluatedAt: string;
+}
+
+/**
+ * Minimal report shape the gate needs, so saved JSON reports can be gated too
+ */
+export interface GateInput {
+  overallScore: number;
+  performance: {
+    loadTime: number;
+    largestContentfulPaint: number;
+  };
+  accessibility: Array<{ severity: string }>;
+}
+
+/**
+ * Process exit codes used by the CLI entry points
+ */
+export const EXIT_CODES = {
+  OK: 0,
+  BUDGET_FAILED: 1,
+  TOOL_ERROR: 2,
+} as const;
+
+/**
+ * Compare a report against the configured thresholds
+ */
+export function evaluateThresholds(report: GateInput, thresholds: TestConfig['thresholds']): GateVerdict {
+  const breaches: GateBreach[] = [];
+
+  if (report.overallScore < thresholds.overallScore) {
+    breaches.push({
+      metric: 'overallScore',
+      actual: report.overallScore,
+      limit: thresholds.overallScore,
+      message: `Overall score ${report.overallScore} is below the minimum of ${thresholds.overallScore}`,
+    });
+  }
+
+  if (report.performance.loadTime > thresholds.loadTime) {
+    breaches.push({
+      metric: 'loadTime',
+      actual: Math.round(report.performance.loadTime),
+      limit: thresholds.loadTime,
+      message: `Load time ${Math.round(report.performance.loadTime)}ms exceeds ${thresholds.loadTime}ms`,
+    });
+  }
+
+  if (report.performance.largestContentfulPaint > thresholds.lcp) {
+    breaches.push({
+      metric: 'lcp',
+      actual: Math.round(report.performance.largestContentfulPaint),
+      limit: thresholds.lcp,
+      message: `LCP ${Math.round(report.performance.largestContentfulPaint)}ms exceeds ${thresholds.lcp}ms`,
+    });
+  }
+
+  const criticalCount = report.accessibility.filter(i => i.severity === 'critical').length;
+  if (criticalCount > thresholds.accessibility.maxCritical) {
+    breaches.push({
+      metric: 'accessibility.critical',
+      actual: criticalCount,
+      limit: thresholds.accessibility.maxCritical,
+      message: `${criticalCount} critical accessibility issues (max ${thresholds.accessibility.maxCritical})`,
+    });
+  }
+
+  const seriousCount = report.accessibility.filter(i => i.severity === 'serious').length;
+  if (seriousCount > thresholds.accessibility.maxSerious) {
+    breaches.push({
+      metric: 'accessibility.serious',
+      actual: seriousCount,
+      limit: thresholds.accessibility.maxSerious,
+      message: `${seriousCount} serious accessibility issues (max ${thresholds.accessibility.maxSerious})`,
+    });
+  }
+
+  return {
+    passed: breaches.length === 0,
+    breaches,
+    evaluatedAt: new Date().toISOString(),
+  };
+}
+
+/**
+ * Print the verdict for CI logs
+ */
+export function printVerdict(verdict: GateVerdict): void {
+  if (verdict.passed) {
+    console.log('✅ All UX budgets met');
+    return;
+  }
+
+  console.log(`❌ ${verdict.breaches.length} UX budget(s) breached:`);
+  verdict.breaches.forEach(breach => {
+    console.log(`   • [${breach.metric}] ${breach.message}`);
+  });
+}
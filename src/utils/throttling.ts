@@ -0,0 +1,81 @@
+import { Page } from 'playwright';
+import { TestConfig } from '../config/config.example';
+import { BrowserEngine } from './cross-browser';
+
+// ========================================
+// Network & CPU Throttling
+// ========================================
+
+export type ThrottlingProfileName = NonNullable<TestConfig['throttling']>['profile'];
+
+export interface ThrottlingSettings {
+  profile: ThrottlingProfileName;
+  latency: number;        // ms ต่อ request
+  downloadKbps: number;
+  uploadKbps: number;
+  cpuSlowdown: number;    // 1 = ไม่ชะลอ
+  applied: boolean;       // false เมื่อ engine ไม่รองรับ (ไม่ใช่ Chromium)
+}
+
+/**
+ * Lab profiles. 'slow-4g' matches Lighthouse mobile defaults (DevTools-adjusted latency/throughput, 4x CPU);
+ * 'fast-3g' and 'cable' follow the WebPageTest connection presets.
+ */
+export const THROTTLING_PROFILES: Record<ThrottlingProfileName, Omit<ThrottlingSettings, 'profile' | 'applied'>> = {
+  'none': { latency: 0, downloadKbps: 0, uploadKbps: 0, cpuSlowdown: 1 },
+  'cable': { latency: 28, downloadKbps: 5000, uploadKbps: 1000, cpuSlowdown: 1 },
+  'fast-3g': { latency: 150, downloadKbps: 1600, uploadKbps: 768, cpuSlowdown: 1 },
+  'slow-4g': { latency: 562.5, downloadKbps: 1474.56, uploadKbps: 675, cpuSlowdown: 4 },
+};
+
+/**
+ * Resolve the configured profile; returns null when throttling is off
+ */
+export function resolveThrottling(throttling: TestConfig['throttling']): ThrottlingSettings | null {
+  if (!throttling) {
+    return null;
+  }
+
+  const profile = THROTTLING_PROFILES[throttling.profile];
+  if (!profile) {
+    throw new Error(`Unknown throttling profile: ${throttling.profile}`);
+  }
+
+  const settings: ThrottlingSettings = {
+    profile: throttling.profile,
+    ...profile,
+    cpuSlowdown: throttling.cpuSlowdown ?? profile.cpuSlowdown,
+    applied: false,
+  };
+  if (settings.profile === 'none' && settings.cpuSlowdown <= 1) {
+    return null;
+  }
+  return settings;
+}
+
+/**
+ * Apply network/CPU throttling to a page through the Chrome DevTools Protocol
+ */
+export async function applyThrottling(page: Page, settings: ThrottlingSettings, browser: BrowserEngine): Promise<ThrottlingSettings> {
+  if (browser !== 'chromium') {
+    console.log(`  ⚠️  Throttling (${settings.profile}) is only supported in Chromium; ${browser} runs unthrottled`);
+    return { ...settings, applied: false };
+  }
+
+  const session = await page.context().newCDPSession(page);
+  if (settings.profile !== 'none') {
+    await session.send('Network.enable');
+    await session.send('Network.emulateNetworkConditions', {
+      offline: false,
+      latency: settings.latency,
+      downloadThroughput: (settings.downloadKbps * 1024) / 8,
+      uploadThroughput: (settings.uploadKbps * 1024) / 8,
+    });
+  }
+  if (settings.cpuSlowdown > 1) {
+    await session.send('Emulation.setCPUThrottlingRate', { rate: settings.cpuSlowdown });
+  }
+
+  console.log(`  🐢 Throttling: ${settings.profile}, ${settings.cpuSlowdown}x CPU slowdown`);
+  return { ...settings, applied: true };
+}
@@ -0,0 +1,133 @@
+import * as path from 'path';
+import { Page } from 'playwright';
+import { TestConfig } from '../config/config.example';
+
+// ========================================
+// Scripted User Journeys & Checkpoints
+// ========================================
+
+export type JourneyConfig = NonNullable<TestConfig['journey']>;
+export type JourneyStep = JourneyConfig['steps'][number];
+
+const ACTIONS: Array<JourneyStep['action']> = ['goto', 'click', 'fill', 'select', 'press', 'waitFor', 'run', 'checkpoint'];
+
+/**
+ * Check a journey definition before the browser starts so typos fail fast
+ */
+export function validateJourney(journey: any): JourneyConfig {
+  if (!journey || typeof journey.name !== 'string' || !Array.isArray(journey.steps)) {
+    throw new Error('Invalid journey: expected { name, steps: [...] }');
+  }
+
+  const checkpoints = new Set<string>();
+  journey.steps.forEach((step: any, i: number) => {
+    const where = `Journey "${journey.name}" step ${i + 1}`;
+    if (!step || !ACTIONS.includes(step.action)) {
+      throw new Error(`${where}: unknown action ${step?.action}`);
+    }
+    const requires = (field: string, type: string = 'string') => {
+      if (typeof step[field] !== type || (type === 'string' && step[field] === '')) {
+        throw new Error(`${where} (${step.action}): missing ${field}`);
+      }
+    };
+
+    if (step.action === 'goto') requires('url');
+    if (['click', 'fill', 'select'].includes(step.action)) requires('selector');
+    if (step.action === 'fill' || step.action === 'select') requires('value');
+    if (step.action === 'press') requires('key');
+    if (step.action === 'waitFor' && step.selector === undefined && step.url === undefined) {
+      throw new Error(`${where} (waitFor): needs a selector or url`);
+    }
+    if (step.action === 'run') {
+      requires('name');
+      requires('fn', 'function');
+    }
+    if (step.action === 'checkpoint') {
+      requires('name');
+      if (checkpoints.has(step.name)) {
+        throw new Error(`${where}: duplicate checkpoint "${step.name}"`);
+      }
+      checkpoints.add(step.name);
+    }
+  });
+
+  return journey as JourneyConfig;
+}
+
+/**
+ * Load a journey from a module (default export or `journey` export); steps may contain functions
+ */
+export function loadJourneyModule(modulePath: string): JourneyConfig {
+  let mod: any;
+  try {
+    mod = require(path.resolve(modulePath));
+  } catch (e) {
+    throw new Error(`Could not load journey module ${modulePath}: ${e instanceof Error ? e.message : e}`);
+  }
+  return validateJourney(mod?.default ?? mod?.journey ?? mod);
+}
+
+/**
+ * Replace ${NAME} with environment variables so secrets stay out of journey and config files
+ */
+export function resolveEnvValue(value: string, env: NodeJS.ProcessEnv = process.env): string {
+  return value.replace(/\$\{([A-Z0-9_]+)\}/gi, (_match, name: string) => {
+    if (env[name] === undefined) {
+      throw new Error(`Environment variable ${name} is not set`);
+    }
+    return env[name]!;
+  });
+}
+
+/**
+ * One-line description for logs (fill/select values are never printed)
+ */
+export function describeStep(step: JourneyStep): string {
+  switch (step.action) {
+    case 'goto': return `goto ${step.url}`;
+    case 'click': return `click ${step.selector}`;
+    case 'fill': return `fill ${step.selector}`;
+    case 'select': return `select ${step.selector}`;
+    case 'press': return `press ${step.key}${step.selector ? ` in ${step.selector}` : ''}`;
+    case 'waitFor': return `waitFor ${[step.selector, step.url].filter(Boolean).join(' ')}`;
+    case 'run': return `run ${step.name}`;
+    case 'checkpoint': return `checkpoint ${step.name}`;
+  }
+}
+
+export async function runJourneyStep(page: Page, step: JourneyStep, baseUrl: string, timeout: number): Promise<void> {
+  switch (step.action) {
+    case 'goto':
+      await page.goto(new URL(step.url, baseUrl).toString(), { waitUntil: 'networkidle', timeout });
+      break;
+    case 'click':
+      await page.click(step.selector, { timeout });
+      break;
+    case 'fill':
+      await page.fill(step.selector, resolveEnvValue(step.value), { timeout });
+      break;
+    case 'select':
+      await page.selectOption(step.selector, resolveEnvValue(step.value), { timeout });
+      break;
+    case 'press':
+      if (step.selector) {
+        await page.press(step.selector, step.key, { timeout });
+      } else {
+        await page.keyboard.press(step.key);
+      }
+      break;
+    case 'waitFor':
+      if (step.selector) {
+        await page.waitForSelector(step.selector, { state: step.state || 'visible', timeout: step.timeout ?? timeout });
+      }
+      if (step.url) {
+        await page.waitForURL(step.url, { timeout: step.timeout ?? timeout });
+      }
+      break;
+    case 'run':
+      await step.fn(page);
+      break;
+    case 'checkpoint':
+      break;
+  }
+}
@@ -0,0 +1,248 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import pixelmatch from 'pixelmatch';
+import { TestConfig } from '../config/config.example';
+import type { TestResult } from '../testers/ux-ui-tester';
+import { BrowserEngine } from './cross-browser';
+
+// ========================================
+// Visual Regression (baselines & pixel diff)
+// ========================================
+
+export type VisualRegressionConfig = NonNullable<TestConfig['visualRegression']>;
+export type Region = NonNullable<VisualRegressionConfig['ignoreRegions']>[number];
+
+export interface RawImage {
+  width: number;
+  height: number;
+  data: Uint8Array;   // RGBA
+}
+
+export interface PixelDiffOptions {
+  threshold?: number;
+  includeAntiAliasing?: boolean;
+  ignoreRegions?: Region[];
+}
+
+export interface PixelDiffResult {
+  diffPixels: number;
+  antiAliasedPixels: number;
+  totalPixels: number;
+  diffRatio: number;
+  sizeChanged: boolean;
+  diff: RawImage;     // แดง = ต่าง, เหลือง = anti-aliasing, ฟ้า = ignore region, เทา = เหมือนเดิม
+}
+
+export interface VisualSnapshot {
+  key: string;        // path ภายใน baselineDir: <page>[--<checkpoint>]/<browser>/<device>/<name>.png
+  page: string;
+  checkpoint?: string;   // journey: ชื่อ checkpoint (หลาย checkpoint อาจอยู่ที่ URL เดียวกัน)
+  device: string;
+  name: string;       // 'full-page', 'viewport' หรือชื่อ component
+  browser: BrowserEngine;
+  status: 'match' | 'changed' | 'new' | 'updated';
+  baseline: string;
+  current: string;
+  diff?: string;
+  diffPixels: number;
+  diffRatio: number;
+  sizeChanged?: boolean;
+}
+
+export const DEFAULT_VISUAL_THRESHOLD = 0.1;
+export const DEFAULT_MAX_DIFF_RATIO = 0.001;
+
+const DIFF_COLOR: [number, number, number] = [255, 0, 0];
+const AA_COLOR: [number, number, number] = [255, 255, 0];
+const IGNORED_COLOR: [number, number, number] = [200, 220, 255];
+
+/**
+ * Copy an image onto a larger transparent canvas (top-left aligned)
+ */
+function padImage(img: RawImage, width: number, height: number): Uint8Array {
+  if (img.width === width && img.height === height) {
+    return Uint8Array.from(img.data);
+  }
+  const out = new Uint8Array(width * height * 4);
+  for (let y = 0; y < img.height; y++) {
+    out.set(img.data.subarray(y * img.width * 4, (y + 1) * img.width * 4), y * width * 4);
+  }
+  return out;
+}
+
+/**
+ * Pixel-diff two RGBA images with pixelmatch. Images of different sizes are compared on the larger canvas;
+ * pixels that exist in only one of them count as different.
+ */
+export function diffImages(baseline: RawImage, current: RawImage, options: PixelDiffOptions = {}): PixelDiffResult {
+  const width = Math.max(baseline.width, current.width);
+  const height = Math.max(baseline.height, current.height);
+
+  const ignored = new Uint8Array(width * height);
+  (options.ignoreRegions || []).forEach(r => {
+    for (let y = Math.max(0, Math.floor(r.y)); y < Math.min(height, Math.ceil(r.y + r.height)); y++) {
+      ignored.fill(1, y * width + Math.max(0, Math.floor(r.x)), y * width + Math.min(width, Math.ceil(r.x + r.width)));
+    }
+  });
+
+  // Ignored pixels and pixels outside one of the images are made equal for pixelmatch and painted afterwards
+  const a = padImage(baseline, width, height);
+  const b = padImage(current, width, height);
+  const inBoth = (x: number, y: number) => x < baseline.width && y < baseline.height && x < current.width && y < current.height;
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = y * width + x;
+      if (ignored[i] || !inBoth(x, y)) {
+        b.set(a.subarray(i * 4, i * 4 + 4), i * 4);
+      }
+    }
+  }
+
+  const out = new Uint8Array(width * height * 4);
+  let diffPixels = pixelmatch(a, b, out, width, height, {
+    threshold: options.threshold ?? DEFAULT_VISUAL_THRESHOLD,
+    includeAA: options.includeAntiAliasing,
+    diffColor: DIFF_COLOR,
+    aaColor: AA_COLOR,
+  });
+
+  const paint = (i: number, [r, g, bl]: [number, number, number]) => {
+    out[i * 4] = r; out[i * 4 + 1] = g; out[i * 4 + 2] = bl; out[i * 4 + 3] = 255;
+  };
+  let antiAliasedPixels = 0;
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = y * width + x;
+      if (ignored[i]) {
+        paint(i, IGNORED_COLOR);
+      } else if (!inBoth(x, y)) {
+        diffPixels++;
+        paint(i, DIFF_COLOR);
+      } else if (out[i * 4] === AA_COLOR[0] && out[i * 4 + 1] === AA_COLOR[1] && out[i * 4 + 2] === AA_COLOR[2]) {
+        antiAliasedPixels++;
+      }
+    }
+  }
+
+  const totalPixels = width * height;
+  return {
+    diffPixels,
+    antiAliasedPixels,
+    totalPixels,
+    diffRatio: totalPixels > 0 ? diffPixels / totalPixels : 0,
+    sizeChanged: baseline.width !== current.width || baseline.height !== current.height,
+    diff: { width, height, data: out },
+  };
+}
+
+const slug = (text: string) => text
+  .replace(/[^a-z0-9._-]+/gi, '-')
+  .replace(/^-+|-+$/g, '')
+  .toLowerCase();
+
+/**
+ * Baseline path for a snapshot. Only the path and query of the URL are used,
+ * so staging and production share baselines. Journey checkpoints are part of the page
+ * segment because a journey can reach several states at one URL.
+ */
+export function snapshotKey(url: string, browser: BrowserEngine, device: string, name: string, checkpoint?: string): string {
+  const u = new URL(url);
+  const page = slug(`${u.pathname}${u.search}`) || 'index';
+  return [checkpoint ? `${page}--${slug(checkpoint)}` : page, browser, slug(device), `${slug(name)}.png`].join('/');
+}
+
+export async function readPng(file: string): Promise<RawImage> {
+  // Loaded on demand: native module
+  const sharp = (await import('sharp')).default;
+  const { data, info } = await sharp(file).ensureAlpha().raw().toBuffer({ resolveWithObject: true });
+  return { width: info.width, height: info.height, data };
+}
+
+export async function writePng(file: string, image: RawImage): Promise<void> {
+  const sharp = (await import('sharp')).default;
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  await sharp(Buffer.from(image.data), { raw: { width: image.width, height: image.height, channels: 4 } }).png().toFile(file);
+}
+
+function copyFile(from: string, to: string): void {
+  fs.mkdirSync(path.dirname(to), { recursive: true });
+  fs.copyFileSync(from, to);
+}
+
+/**
+ * Compare a capture with its approved baseline. The capture, a copy of the baseline and the diff image
+ * are written to <outDir>/visual/{current,baseline,diff}/<key> so the report folder is self-contained.
+ */
+export async function compareSnapshot(
+  capture: Buffer,
+  snapshot: Pick<VisualSnapshot, 'page' | 'device' | 'name' | 'browser' | 'checkpoint'>,
+  config: VisualRegressionConfig,
+  outDir: string,
+  ignoreRegions: Region[] = []
+): Promise<VisualSnapshot> {
+  const key = snapshotKey(snapshot.page, snapshot.browser, snapshot.device, snapshot.name, snapshot.checkpoint);
+  const baseline = path.join(config.baselineDir, key);
+  const current = path.join(outDir, 'visual', 'current', key);
+  fs.mkdirSync(path.dirname(current), { recursive: true });
+  fs.writeFileSync(current, capture);
+
+  const result: VisualSnapshot = { ...snapshot, key, status: 'new', baseline, current, diffPixels: 0, diffRatio: 0 };
+
+  if (!fs.existsSync(baseline)) {
+    if (config.updateBaselines) {
+      copyFile(current, baseline);
+      result.status = 'updated';
+    }
+    return result;
+  }
+
+  copyFile(baseline, path.join(outDir, 'visual', 'baseline', key));
+  const diff = diffImages(await readPng(baseline), await readPng(current), {
+    threshold: config.threshold,
+    includeAntiAliasing: config.includeAntiAliasing,
+    ignoreRegions,
+  });
+  result.diffPixels = diff.diffPixels;
+  result.diffRatio = diff.diffRatio;
+  result.sizeChanged = diff.sizeChanged || undefined;
+
+  const changed = diff.sizeChanged || diff.diffRatio > (config.maxDiffRatio ?? DEFAULT_MAX_DIFF_RATIO);
+  if (diff.diffPixels > 0) {
+    result.diff = path.join(outDir, 'visual', 'diff', key);
+    await writePng(result.diff, diff.diff);
+  }
+  if (changed && config.updateBaselines) {
+    copyFile(current, baseline);
+    result.status = 'updated';
+  } else {
+    result.status = changed ? 'changed' : 'match';
+  }
+  return result;
+}
+
+/**
+ * The `Visual Regression` TestResult fields for a compared snapshot
+ */
+export function snapshotResult(snapshot: VisualSnapshot): Pick<TestResult, 'test' | 'status' | 'score' | 'details' | 'severity'> {
+  const test = `${snapshot.device} · ${snapshot.name}`;
+  const percent = `${(snapshot.diffRatio * 100).toFixed(3)}%`;
+
+  switch (snapshot.status) {
+    case 'match':
+      return { test, status: 'pass', score: 10, details: `Matches baseline (${percent} pixels differ)`, severity: 'low' };
+    case 'updated':
+      return { test, status: 'pass', score: 10, details: `Baseline updated: ${snapshot.key}`, severity: 'low' };
+    case 'new':
+      return { test, status: 'warning', score: 7, details: `No approved baseline yet: review ${snapshot.current} and approve it`, severity: 'low' };
+    case 'changed': {
+      const major = snapshot.sizeChanged || snapshot.diffRatio >= 0.05;
+      return {
+        test,
+        status: 'fail',
+        score: major ? 2 : 5,
+        details: `${percent} pixels differ (${snapshot.diffPixels} px)${snapshot.sizeChanged ? ', page size changed' : ''}${snapshot.diff ? `; diff: ${snapshot.diff}` : ''}`,
+        severity: major ? 'high' : 'medium',
+      };
+    }
+  }
+}
@@ -0,0 +1,299 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import type { UXReport } from '../testers/ux-ui-tester';
+import { matchesPattern } from './site-crawler';
+import { VisualSnapshot } from './visual-regression';
+
+// ========================================
+// Visual Review (approve changed snapshots)
+// ========================================
+
+export const VISUAL_REVIEW_FILE = 'ux-visual-review.html';
+
+export interface ReviewPaths {
+  baseline?: string;  // สำเนา baseline ในโฟลเดอร์รายงาน (ไม่มีเมื่อเป็น snapshot ใหม่)
+  current: string;
+  diff?: string;
+}
+
+export interface ApproveOptions {
+  keys?: string[];      // key หรือ glob เช่น 'checkout/*/mobile-*'
+  all?: boolean;
+  baselineDir?: string; // แทน baselineDir ที่บันทึกไว้ในรายงาน
+}
+
+/**
+ * Snapshots waiting for a decision: changed captures and captures without a baseline
+ */
+export function pendingSnapshots(report: UXReport): VisualSnapshot[] {
+  return (report.visual || []).filter(s => s.status === 'changed' || s.status === 'new');
+}
+
+/**
+ * Image paths inside the report folder. The folder is self-contained, so this still works
+ * after it was moved (e.g. downloaded as a CI artifact).
+ */
+export function reviewPaths(snapshot: VisualSnapshot, reportDir: string): ReviewPaths {
+  const file = (kind: 'baseline' | 'current' | 'diff') => path.join(reportDir, 'visual', kind, snapshot.key);
+  return {
+    baseline: snapshot.status === 'new' ? undefined : file('baseline'),
+    current: file('current'),
+    diff: snapshot.diff ? file('diff') : undefined,
+  };
+}
+
+/**
+ * Pick the pending snapshots to approve. Keys may be globs and the '.png' suffix is optional;
+ * a key that matches nothing is an error so typos do not silently approve less than intended.
+ */
+export function selectSnapshots(pending: VisualSnapshot[], options: ApproveOptions): VisualSnapshot[] {
+  if (options.all) {
+    return pending;
+  }
+
+  const keys = options.keys || [];
+  if (keys.length === 0) {
+    throw new Error('Nothing to approve: pass snapshot keys or --all');
+  }
+
+  const unmatched = keys.filter(key => !pending.some(s => matchesKey(s, key)));
+  if (unmatched.length > 0) {
+    throw new Error(`No changed snapshot matches: ${unmatched.join(', ')}`);
+  }
+  return pending.filter(s => keys.some(key => matchesKey(s, key)));
+}
+
+function matchesKey(snapshot: VisualSnapshot, key: string): boolean {
+  return matchesPattern(snapshot.key, key) || matchesPattern(snapshot.key, `${key}.png`);
+}
+
+/**
+ * Every copy of a snapshot in the report: site and cross-browser runs keep the
+ * per-page / per-browser reports, whose visual entries are copies of the merged list
+ */
+function reportSnapshots(report: UXReport): VisualSnapshot[] {
+  return [
+    ...(report.visual || []),
+    ...[...(report.pageReports || []), ...(report.browserReports || [])].flatMap(reportSnapshots),
+  ];
+}
+
+/**
+ * Promote the selected captures to the baseline set. The report is updated in place
+ * (status 'updated', nested page and browser reports included) so the review page no longer lists them.
+ */
+export function approveSnapshots(report: UXReport, reportDir: string, options: ApproveOptions): VisualSnapshot[] {
+  const selected = selectSnapshots(pendingSnapshots(report), options);
+
+  selected.forEach(snapshot => {
+    const current = reviewPaths(snapshot, reportDir).current;
+    if (!fs.existsSync(current)) {
+      throw new Error(`Capture not found: ${current}`);
+    }
+    const baseline = options.baselineDir ? path.join(options.baselineDir, snapshot.key) : snapshot.baseline;
+    fs.mkdirSync(path.dirname(baseline), { recursive: true });
+    fs.copyFileSync(current, baseline);
+    reportSnapshots(report)
+      .filter(copy => copy.key === snapshot.key)
+      .forEach(copy => {
+        copy.baseline = baseline;
+        copy.status = 'updated';
+      });
+  });
+
+  return selected;
+}
+
+// ========================================
+// Review HTML
+// ========================================
+
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+function renderSnapshot(snapshot: VisualSnapshot, index: number): string {
+  const src = (kind: 'baseline' | 'current' | 'diff') => `./visual/${kind}/${snapshot.key}`;
+  const figure = (kind: 'baseline' | 'current' | 'diff', caption: string) =>
+    `<figure><a href="${src(kind)}" target="_blank"><img src="${src(kind)}" alt="${kind}" loading="lazy"></a><figcaption>${caption}</figcaption></figure>`;
+  const hasBaseline = snapshot.status === 'changed';
+
+  return `
+    <div class="snapshot" id="snapshot-${index}">
+      <div class="snapshot-header">
+        <label>
+          <input type="checkbox" class="approve" value="${escapeHtml(snapshot.key)}">
+          <strong>${snapshot.checkpoint ? `${escapeHtml(snapshot.checkpoint)} · ` : ''}${escapeHtml(snapshot.device)} · ${escapeHtml(snapshot.name)}</strong>
+        </label>
+        <span class="badge ${snapshot.status}">${snapshot.status === 'new' ? '🆕 no baseline' : '❌ changed'}</span>
+        <span class="meta">${escapeHtml(snapshot.page)} · ${snapshot.browser}${hasBaseline
+          ? ` · ${(snapshot.diffRatio * 100).toFixed(3)}% (${snapshot.diffPixels} px)${snapshot.sizeChanged ? ' · size changed' : ''}`
+          : ''}</span>
+        <code>${escapeHtml(snapshot.key)}</code>
+      </div>
+      ${hasBaseline ? `
+      <div class="view-toggle">
+        <button type="button" data-view="side" class="active">Side by side</button>
+        <button type="button" data-view="slider">Slider</button>
+      </div>` : ''}
+      <div class="view side">
+        ${hasBaseline ? figure('baseline', 'Baseline') : ''}
+        ${figure('current', 'Current')}
+        ${snapshot.diff ? figure('diff', 'Diff') : ''}
+      </div>
+      ${hasBaseline ? `
+      <div class="view slider" hidden>
+        <div class="slider-frame" style="--position: 50%">
+          <img src="${src('baseline')}" alt="baseline">
+          <img class="slider-current" src="${src('current')}" alt="current">
+          <div class="slider-handle"></div>
+        </div>
+        <input type="range" min="0" max="100" value="50" aria-label="Baseline / current">
+        <div class="slider-labels"><span>← Baseline</span><span>Current →</span></div>
+      </div>` : ''}
+    </div>
+  `;
+}
+
+/**
+ * Review page written next to ux-report.html: side-by-side and slider views of every pending
+ * snapshot, with checkboxes that build the `ux-audit approve` command.
+ */
+export function generateReviewHTML(snapshots: VisualSnapshot[], reportFile: string = 'ux-report.json'): string {
+  const changed = snapshots.filter(s => s.status === 'changed').length;
+
+  return `<!DOCTYPE html>
+<html lang="th">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>Visual Review</title>
+  <style>
+    * { margin: 0; padding: 0; box-sizing: border-box; }
+    body {
+      font-family: 'Segoe UI', Tahoma, Geneva, Verdana, sans-serif;
+      color: #333;
+      background: #f5f5f5;
+      padding: 20px 20px 120px;
+    }
+    .container {
+      max-width: 1400px;
+      margin: 0 auto;
+      background: white;
+      border-radius: 8px;
+      box-shadow: 0 2px 10px rgba(0,0,0,0.1);
+      overflow: hidden;
+    }
+    .header {
+      background: linear-gradient(135deg, #667eea 0%, #764ba2 100%);
+      color: white;
+      padding: 30px 40px;
+    }
+    .header button { margin-top: 12px; padding: 6px 14px; border: none; border-radius: 4px; cursor: pointer; }
+    .snapshot { padding: 25px 40px; border-bottom: 1px solid #e0e0e0; }
+    .snapshot-header { display: flex; flex-wrap: wrap; align-items: center; gap: 12px; margin-bottom: 12px; }
+    .snapshot-header label { cursor: pointer; }
+    .snapshot-header code { color: #999; font-size: 0.85em; }
+    .meta { color: #666; font-size: 0.9em; }
+    .badge { padding: 2px 8px; border-radius: 10px; font-size: 0.8em; }
+    .badge.changed { background: #fdecea; color: #c62828; }
+    .badge.new { background: #e3f2fd; color: #1565c0; }
+    .view-toggle { margin-bottom: 12px; }
+    .view-toggle button { padding: 4px 12px; border: 1px solid #667eea; background: white; color: #667eea; cursor: pointer; }
+    .view-toggle button.active { background: #667eea; color: white; }
+    .view.side { display: grid; grid-template-columns: repeat(auto-fit, minmax(280px, 1fr)); gap: 15px; }
+    .view.side img { width: 100%; border: 1px solid #ddd; }
+    figcaption { text-align: center; color: #666; font-size: 0.9em; margin-top: 4px; }
+    .slider-frame { position: relative; display: inline-block; max-width: 100%; border: 1px solid #ddd; }
+    .slider-frame img { display: block; max-width: 100%; }
+    .slider-current {
+      position: absolute;
+      top: 0;
+      left: 0;
+      clip-path: inset(0 calc(100% - var(--position)) 0 0);
+    }
+    .slider-handle {
+      position: absolute;
+      top: 0;
+      bottom: 0;
+      left: var(--position);
+      width: 2px;
+      background: #e91e63;
+    }
+    .view.slider input { display: block; width: 100%; margin-top: 8px; }
+    .slider-labels { display: flex; justify-content: space-between; color: #666; font-size: 0.85em; }
+    .approve-bar {
+      position: fixed;
+      left: 0;
+      right: 0;
+      bottom: 0;
+      background: #2d2d2d;
+      color: white;
+      padding: 15px 40px;
+    }
+    .approve-bar code { display: block; margin-top: 6px; color: #a5d6a7; word-break: break-all; }
+  </style>
+</head>
+<body>
+  <div class="container">
+    <div class="header">
+      <h1>🖼️ Visual Review</h1>
+      <p>${snapshots.length} snapshot(s) waiting for review: ${changed} changed, ${snapshots.length - changed} without a baseline</p>
+      ${snapshots.length > 0 ? '<button type="button" id="select-all">Select all</button>' : ''}
+    </div>
+    ${snapshots.length === 0
+      ? '<div class="snapshot"><p>✅ Every snapshot matches its baseline.</p></div>'
+      : snapshots.map(renderSnapshot).join('')}
+  </div>
+  <div class="approve-bar">
+    Approve the selected captures as the new baselines:
+    <code id="approve-command">Select snapshots above</code>
+  </div>
+  <script>
+    document.querySelectorAll('.snapshot').forEach(function (card) {
+      card.querySelectorAll('.view-toggle button').forEach(function (button) {
+        button.addEventListener('click', function () {
+          card.querySelectorAll('.view-toggle button').forEach(function (b) { b.classList.toggle('active', b === button); });
+          card.querySelectorAll('.view').forEach(function (view) { view.hidden = !view.classList.contains(button.dataset.view); });
+        });
+      });
+      var range = card.querySelector('.view.slider input');
+      if (range) {
+        range.addEventListener('input', function () {
+          card.querySelector('.slider-frame').style.setProperty('--position', range.value + '%');
+        });
+      }
+    });
+
+    var command = ${JSON.stringify(`ux-audit approve ${reportFile}`).replace(/</g, '\\u003c')};
+    var boxes = Array.prototype.slice.call(document.querySelectorAll('input.approve'));
+    function updateCommand() {
+      var keys = boxes.filter(function (b) { return b.checked; }).map(function (b) { return "'" + b.value + "'"; });
+      document.getElementById('approve-command').textContent = keys.length === 0
+        ? 'Select snapshots above'
+        : keys.length === boxes.length
+          ? command + ' --all'
+          : command + ' ' + keys.join(' ');
+    }
+    boxes.forEach(function (b) { b.addEventListener('change', updateCommand); });
+    var selectAll = document.getElementById('select-all');
+    if (selectAll) {
+      selectAll.addEventListener('click', function () {
+        boxes.forEach(function (b) { b.checked = true; });
+        updateCommand();
+      });
+    }
+  </script>
+</body>
+</html>`;
+}
+
+/**
+ * Write the review page into the report folder
+ */
+export function writeReviewPage(report: UXReport, reportDir: string): string {
+  const reviewPath = path.join(reportDir, VISUAL_REVIEW_FILE);
+  const reportFile = path.relative(process.cwd(), path.join(reportDir, 'ux-report.json')) || 'ux-report.json';
+  fs.writeFileSync(reviewPath, generateReviewHTML(pendingSnapshots(report), reportFile));
+  return reviewPath;
+}
@@ -0,0 +1,82 @@
+// ========================================
+// Core Web Vitals: CLS & INP
+// ========================================
+
+export interface LayoutShiftSource {
+  selector: string;
+  previousRect: { x: number; y: number; width: number; height: number };
+  currentRect: { x: number; y: number; width: number; height: number };
+}
+
+export interface LayoutShiftRecord {
+  value: number;
+  startTime: number;
+  hadRecentInput: boolean;
+  sources: LayoutShiftSource[];
+}
+
+export interface EventTimingRecord {
+  name: string;           // event type เช่น 'pointerdown', 'click'
+  interactionId: number;
+  duration: number;
+  startTime: number;
+  target: string;
+}
+
+export interface InteractionRecord {
+  type: string;
+  target: string;
+  duration: number;
+}
+
+const SESSION_GAP = 1000;
+const SESSION_MAX = 5000;
+
+/**
+ * CLS = largest session window of unexpected shifts
+ * (shifts less than 1s apart, window capped at 5s; shifts right after input are ignored)
+ */
+export function computeCLS(shifts: LayoutShiftRecord[]): { value: number; shifts: LayoutShiftRecord[] } {
+  let best: { value: number; shifts: LayoutShiftRecord[] } = { value: 0, shifts: [] };
+  let current: LayoutShiftRecord[] = [];
+  let currentValue = 0;
+
+  shifts
+    .filter(s => !s.hadRecentInput)
+    .sort((a, b) => a.startTime - b.startTime)
+    .forEach(shift => {
+      const first = current[0];
+      const last = current[current.length - 1];
+      if (first && (shift.startTime - last.startTime >= SESSION_GAP || shift.startTime - first.startTime >= SESSION_MAX)) {
+        current = [];
+        currentValue = 0;
+      }
+      current.push(shift);
+      currentValue += shift.value;
+      if (currentValue > best.value) {
+        best = { value: currentValue, shifts: current.slice() };
+      }
+    });
+
+  return { value: Math.round(best.value * 1000) / 1000, shifts: best.shifts };
+}
+
+/**
+ * INP from Event Timing entries: each interaction's latency is its longest event;
+ * with fewer than 50 interactions INP is the slowest one.
+ */
+export function computeINP(events: EventTimingRecord[]): { value: number; interactions: InteractionRecord[] } {
+  const byInteraction = new Map<number, InteractionRecord>();
+  events
+    .filter(e => e.interactionId > 0)
+    .forEach(e => {
+      const existing = byInteraction.get(e.interactionId);
+      if (!existing || e.duration > existing.duration) {
+        byInteraction.set(e.interactionId, { type: e.name, target: e.target, duration: Math.round(e.duration) });
+      }
+    });
+
+  const interactions = Array.from(byInteraction.values()).sort((a, b) => b.duration - a.duration);
+  const index = Math.min(interactions.length - 1, Math.floor(interactions.length / 50));
+  return { value: interactions.length > 0 ? interactions[index].duration : 0, interactions };
+}
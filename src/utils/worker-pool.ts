@@ -0,0 +1,82 @@
+// ========================================
+// Worker Pool (concurrent audits)
+// ========================================
+
+/**
+ * Limits how many audit tasks (page audits, device checks) run at the same time.
+ * One pool is shared by every page, device and browser of a run so the limit is global.
+ */
+export class WorkerPool {
+  readonly concurrency: number;
+  private active = 0;
+  private waiting: Array<() => void> = [];
+
+  constructor(concurrency: number = 1) {
+    this.concurrency = Math.max(1, Math.floor(concurrency) || 1);
+  }
+
+  /**
+   * Run a task once a slot is free
+   */
+  async run<T>(task: () => Promise<T>): Promise<T> {
+    await this.acquire();
+    try {
+      return await task();
+    } finally {
+      this.release();
+    }
+  }
+
+  /**
+   * Run items from inside a task that already holds a slot: the caller works through the items
+   * itself and idle slots help out. Never waits for a slot, so nested use cannot deadlock.
+   * Results keep the order of the items.
+   */
+  async spread<T, R>(items: T[], fn: (item: T, index: number) => Promise<R>): Promise<R[]> {
+    const results: R[] = new Array(items.length);
+    let next = 0;
+    const work = async () => {
+      while (next < items.length) {
+        const i = next++;
+        results[i] = await fn(items[i], i);
+      }
+    };
+
+    const helpers: Array<Promise<void>> = [];
+    while (helpers.length < items.length - 1 && this.tryAcquire()) {
+      helpers.push(work().finally(() => this.release()));
+    }
+    // allSettled so helpers finish before an error is thrown
+    const settled = await Promise.allSettled([work(), ...helpers]);
+    const failed = settled.find(s => s.status === 'rejected') as PromiseRejectedResult | undefined;
+    if (failed) {
+      throw failed.reason;
+    }
+    return results;
+  }
+
+  private acquire(): Promise<void> {
+    if (this.tryAcquire()) {
+      return Promise.resolve();
+    }
+    return new Promise(resolve => this.waiting.push(resolve));
+  }
+
+  private tryAcquire(): boolean {
+    if (this.active < this.concurrency) {
+      this.active++;
+      return true;
+    }
+    return false;
+  }
+
+  private release(): void {
+    const waiter = this.waiting.shift();
+    if (waiter) {
+      // Hand the slot straight to the next task
+      waiter();
+    } else {
+      this.active--;
+    }
+  }
+}
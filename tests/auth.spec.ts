@@ -0,0 +1,148 @@
+import fs from 'fs';
+import http from 'http';
+import os from 'os';
+import path from 'path';
+import { AddressInfo } from 'net';
+import { parseKeyValue, resolveAuth } from '../src/utils/auth';
+import { UXUITester } from '../src/testers/ux-ui-tester';
+import { describeWithBrowser, fixtureConfig } from './fixture-site';
+
+describe('auth config', () => {
+  test('resolves credentials, headers and cookies with environment placeholders', () => {
+    process.env.UX_TEST_PASSWORD = 's3cret';
+    try {
+      const auth = resolveAuth({
+        httpCredentials: { username: 'qa', password: '${UX_TEST_PASSWORD}' },
+        headers: { 'X-Preview-Token': 'token-${UX_TEST_PASSWORD}' },
+        cookies: [
+          { name: 'session', value: 'abc' },
+          { name: 'consent', value: 'yes', domain: '.example.com' },
+        ],
+      }, 'https://staging.example.com/app');
+
+      expect(auth.contextOptions).toEqual({
+        httpCredentials: { username: 'qa', password: 's3cret', origin: 'https://staging.example.com' },
+      });
+      expect(auth.headers).toEqual({ 'X-Preview-Token': 'token-s3cret' });
+      expect(auth.cookies).toEqual([
+        { name: 'session', value: 'abc', url: 'https://staging.example.com/' },
+        { name: 'consent', value: 'yes', domain: '.example.com', path: '/' },
+      ]);
+    } finally {
+      delete process.env.UX_TEST_PASSWORD;
+    }
+  });
+
+  test('requires the storage state file and the referenced environment variables', () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'ux-auth-'));
+    const statePath = path.join(dir, 'state.json');
+    fs.writeFileSync(statePath, JSON.stringify({ cookies: [], origins: [] }));
+
+    expect(resolveAuth({ storageState: statePath }, 'https://example.com').contextOptions.storageState).toBe(statePath);
+    expect(() => resolveAuth({ storageState: path.join(dir, 'missing.json') }, 'https://example.com')).toThrow(/storageState file not found/);
+    expect(() => resolveAuth({ httpCredentials: { username: '${UX_TEST_MISSING_USER}', password: 'x' } }, 'https://example.com'))
+      .toThrow(/UX_TEST_MISSING_USER is not set/);
+    expect(resolveAuth(undefined, 'https://example.com')).toEqual({ contextOptions: {}, headers: {}, cookies: [] });
+  });
+
+  test('the staging preset only sends basic auth when its variables are set', () => {
+    const stagingAuth = (env: Record<string, string | undefined>) => {
+      const setEnv = (values: Record<string, string | undefined>) => Object.entries(values).forEach(([name, value]) => {
+        if (value === undefined) delete process.env[name];
+        else process.env[name] = value;
+      });
+      const saved = { STAGING_USER: process.env.STAGING_USER, STAGING_PASSWORD: process.env.STAGING_PASSWORD };
+      setEnv(env);
+      try {
+        let auth: unknown;
+        jest.isolateModules(() => {
+          auth = require('../src/config/config.example').getConfig('staging').auth;
+        });
+        return auth;
+      } finally {
+        setEnv(saved);
+      }
+    };
+
+    expect(stagingAuth({ STAGING_USER: undefined, STAGING_PASSWORD: undefined })).toBeUndefined();
+    expect(stagingAuth({ STAGING_USER: 'qa', STAGING_PASSWORD: 's3cret' })).toEqual({
+      httpCredentials: { username: '${STAGING_USER}', password: '${STAGING_PASSWORD}' },
+    });
+  });
+
+  test('parses name/value arguments', () => {
+    expect(parseKeyValue('X-Env: staging', ':')).toEqual(['X-Env', 'staging']);
+    expect(parseKeyValue('qa:pa:ss', ':')).toEqual(['qa', 'pa:ss']);
+    expect(parseKeyValue('token=a=b', '=')).toEqual(['token', 'a=b']);
+    expect(() => parseKeyValue('novalue', '=')).toThrow(/Expected "name=value"/);
+  });
+});
+
+describeWithBrowser('authenticated auditing', () => {
+  let server: http.Server;
+  let url: string;
+  let thirdParty: http.Server;
+  let thirdPartyUrl: string;
+  const thirdPartyRequests: http.IncomingHttpHeaders[] = [];
+
+  beforeAll(async () => {
+    // Another origin (CDN / widget) that records what it was sent
+    thirdParty = http.createServer((req, res) => {
+      thirdPartyRequests.push(req.headers);
+      res.writeHead(200, { 'Content-Type': 'application/javascript' });
+      res.end('window.widgetLoaded = true;');
+    });
+    await new Promise<void>(resolve => thirdParty.listen(0, '127.0.0.1', resolve));
+    thirdPartyUrl = `http://localhost:${(thirdParty.address() as AddressInfo).port}/widget.js`;
+
+    // Basic-auth protected page that echoes what the browser sent
+    server = http.createServer((req, res) => {
+      if (req.headers.authorization !== `Basic ${Buffer.from('qa:s3cret').toString('base64')}`) {
+        res.writeHead(401, { 'WWW-Authenticate': 'Basic realm="staging"' });
+        res.end('Unauthorized');
+        return;
+      }
+      res.writeHead(200, { 'Content-Type': 'text/html; charset=utf-8' });
+      res.end(`<!DOCTYPE html><html lang="en"><head><title>Staging</title><link rel="icon" href="data:,"></head>` +
+        `<body><h1 id="echo">${req.headers['x-preview-token']}|${req.headers.cookie}</h1><script src="${thirdPartyUrl}"></script></body></html>`);
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/`;
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+    await new Promise(resolve => thirdParty.close(resolve));
+  });
+
+  test('sends basic auth, headers and cookies from the config', async () => {
+    const tester = new UXUITester(fixtureConfig(url, {
+      auth: {
+        httpCredentials: { username: 'qa', password: 's3cret' },
+        headers: { 'X-Preview-Token': 'preview' },
+        cookies: [{ name: 'session', value: 'abc' }],
+      },
+    }));
+    tester.registerCheck({
+      name: 'echo',
+      category: 'Auth',
+      run: async page => [{ test: 'Echo', status: 'pass', score: 10, details: (await page.textContent('#echo')) || '' }],
+    });
+
+    try {
+      await tester.initialize();
+      await tester.openPage(url);
+      await tester.runCheck(tester.getChecks().find(c => c.name === 'echo')!);
+      const { results } = await tester.generateReport();
+      expect(results[0].details).toBe('preview|session=abc');
+      // Credentials and headers stay with the audited origin
+      expect(thirdPartyRequests.length).toBeGreaterThan(0);
+      thirdPartyRequests.forEach(headers => {
+        expect(headers['x-preview-token']).toBeUndefined();
+        expect(headers.authorization).toBeUndefined();
+      });
+    } finally {
+      await tester.cleanup();
+    }
+  });
+});
@@ -0,0 +1,91 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { CheckRegistry, UXCheck, loadCheckModule, normalizeCheckResult } from '../src/utils/check-registry';
+import { UXUITester, defaultConfig } from '../src/testers/ux-ui-tester';
+import { TestConfig } from '../src/config/config.example';
+
+const BRAND_CHECKS = path.join(__dirname, 'fixtures', 'checks', 'brand-checks.ts');
+
+function check(name: string, overrides: Partial<UXCheck> = {}): UXCheck {
+  return { name, category: 'Custom', run: async () => [], ...overrides };
+}
+
+function config(overrides: Partial<TestConfig> = {}): TestConfig {
+  const outputDir = fs.mkdtempSync(path.join(os.tmpdir(), 'ux-checks-'));
+  return { ...defaultConfig, outputDir, screenshotsDir: path.join(outputDir, 'screenshots'), ...overrides };
+}
+
+describe('check registry', () => {
+  test('keeps registration order and rejects duplicate or invalid checks', () => {
+    const registry = new CheckRegistry();
+    registry.register(check('a'));
+    registry.register(check('b'));
+
+    expect(registry.list().map(c => c.name)).toEqual(['a', 'b']);
+    expect(() => registry.register(check('a'))).toThrow(/already registered/);
+    expect(() => registry.register({ name: 'c', category: 'Custom' } as any)).toThrow(/run must be a function/);
+    expect(registry.unregister('a')).toBe(true);
+    expect(registry.get('a')).toBeUndefined();
+  });
+
+  test('filters checks by their enabled toggle and checks.disable', () => {
+    const registry = new CheckRegistry();
+    registry.register(check('forms', { enabled: c => c.tests.forms }));
+    registry.register(check('brand'));
+    registry.register(check('legal'));
+
+    const cfg = { ...defaultConfig, tests: { ...defaultConfig.tests, forms: false }, checks: { disable: ['legal'] } };
+    expect(registry.enabledChecks(cfg).map(c => c.name)).toEqual(['brand']);
+
+    const typo = { ...cfg, checks: { disable: ['legal', 'brnad'] } };
+    expect(() => registry.enabledChecks(typo)).toThrow('Unknown check(s) in checks.disable: brnad (registered: forms, brand, legal)');
+  });
+
+  test('fills in result defaults and rejects malformed results', () => {
+    const brand = check('brand');
+    expect(normalizeCheckResult(brand, { test: 'Logo', status: 'pass', score: 10, details: 'ok' })).toEqual({
+      category: 'Custom',
+      test: 'Logo',
+      status: 'pass',
+      score: 10,
+      details: 'ok',
+      severity: 'medium',
+      elements: undefined,
+      recommendations: undefined,
+    });
+    expect(() => normalizeCheckResult(brand, { test: 'Logo', status: 'ok' as any, score: 10, details: '' })).toThrow(/invalid status/);
+    expect(() => normalizeCheckResult(brand, { test: 'Logo', status: 'pass', score: 11, details: '' })).toThrow(/invalid score/);
+  });
+
+  test('loads checks from a module', () => {
+    expect(loadCheckModule(BRAND_CHECKS).map(c => c.name)).toEqual(['brand-logo', 'footer-legal']);
+    expect(() => loadCheckModule('does-not-exist.ts')).toThrow(/Could not load check module/);
+  });
+});
+
+describe('UXUITester checks', () => {
+  test('registers built-in checks first, then modules from config', () => {
+    const tester = new UXUITester(config({ checks: { modules: [BRAND_CHECKS] } }));
+
+    expect(tester.getChecks().map(c => c.name)).toEqual([
+      'performance', 'visual-hierarchy', 'color-contrast', 'navigation', 'readability', 'cta-buttons', 'forms',
+      'interactive-elements', 'keyboard-navigation', 'seo-basics', 'responsive', 'accessibility', 'error-handling',
+      'visual-regression', 'brand-logo', 'footer-legal',
+    ]);
+  });
+
+  test('adds custom results to the report and turns a throwing check into a warning', async () => {
+    const tester = new UXUITester(config());
+    await tester.runCheck(check('tone', {
+      run: async (_page, ctx) => [{ test: 'Tone of Voice', status: 'warning', score: 6, details: `Checked ${ctx.url}`, severity: 'low' }],
+    }));
+    await tester.runCheck(check('broken', { run: async () => { throw new Error('selector missing'); } }));
+
+    const { results } = await tester.generateReport();
+    expect(results.map(r => [r.category, r.test, r.status, r.score, r.details])).toEqual([
+      ['Custom', 'Tone of Voice', 'warning', 6, `Checked ${defaultConfig.url}`],
+      ['Custom', 'broken', 'warning', 5, 'Check could not be completed: selector missing'],
+    ]);
+  });
+});
@@ -0,0 +1,41 @@
+import { findDiscrepancies, mergeBrowserReports } from '../src/utils/cross-browser';
+import { UXReport, TestResult } from '../src/testers/ux-ui-tester';
+import { makeA11yIssue, makeReport, makeResult } from './helpers';
+
+function result(test: string, status: TestResult['status'], browser: TestResult['browser']): TestResult {
+  return makeResult({ category: 'Responsive Design', test, status, score: status === 'pass' ? 10 : 7, details: `${browser} ${status}`, browser });
+}
+
+function engineReport(overallScore: number, results: TestResult[], lcp: number): UXReport {
+  return makeReport({ overallScore, results, performance: { largestContentfulPaint: lcp }, accessibility: [makeA11yIssue('image-alt')] });
+}
+
+describe('cross-browser merge', () => {
+  const chromium = engineReport(90, [result('Mobile', 'pass', 'chromium'), result('Desktop', 'pass', 'chromium'), result('LCP', 'pass', 'chromium')], 1800);
+  const webkit = engineReport(80, [result('Mobile', 'warning', 'webkit'), result('Desktop', 'pass', 'webkit')], 0);
+
+  test('flags tests whose status differs between engines, ignoring single-engine tests', () => {
+    const discrepancies = findDiscrepancies([...chromium.results, ...webkit.results]);
+    expect(discrepancies).toHaveLength(1);
+    expect(discrepancies[0]).toMatchObject({
+      test: 'Mobile',
+      statuses: { chromium: 'pass', webkit: 'warning' },
+      details: { webkit: 'webkit warning' },
+    });
+  });
+
+  test('merges engine reports with per-browser summaries', () => {
+    const merged = mergeBrowserReports([
+      { browser: 'chromium', report: chromium },
+      { browser: 'webkit', report: webkit },
+    ]);
+
+    expect(merged.overallScore).toBe(85);
+    expect(merged.performance.largestContentfulPaint).toBe(1800);
+    expect(merged.results).toHaveLength(5);
+    expect(merged.accessibility).toHaveLength(1);
+    expect(merged.browsers!.map(b => [b.browser, b.overallScore])).toEqual([['chromium', 90], ['webkit', 80]]);
+    expect(merged.discrepancies).toHaveLength(1);
+    expect(merged.recommendations[0]).toContain('Mobile (chromium: pass, webkit: warning)');
+  });
+});
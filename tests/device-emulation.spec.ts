@@ -0,0 +1,32 @@
+import { resolveDevice } from '../src/utils/device-emulation';
+
+describe('resolveDevice', () => {
+  test('uses the Playwright descriptor for viewport, UA, touch and scale factor', () => {
+    const device = resolveDevice({ name: 'Mobile iPhone 12', descriptor: 'iPhone 12' });
+
+    expect(device.width).toBe(390);
+    expect(device.isMobile).toBe(true);
+    expect(device.hasTouch).toBe(true);
+    expect(device.deviceScaleFactor).toBe(3);
+    expect(device.userAgent).toMatch(/iPhone/);
+    expect(device.contextOptions.isMobile).toBe(true);
+  });
+
+  test('explicit fields override the descriptor and orientation swaps the viewport', () => {
+    const device = resolveDevice({ name: 'iPad landscape', descriptor: 'iPad Mini', hasTouch: false, orientation: 'landscape' });
+
+    expect(device.contextOptions.viewport).toEqual({ width: 1024, height: 768 });
+    expect(device.hasTouch).toBe(false);
+  });
+
+  test('plain width/height devices stay desktop and firefox drops isMobile', () => {
+    expect(resolveDevice({ name: 'Desktop', width: 1366, height: 768 }).isMobile).toBe(false);
+
+    const mobile = resolveDevice({ name: 'Custom', width: 360, height: 800, isMobile: true }, 'firefox');
+    expect(mobile.isMobile).toBe(true);
+    expect(mobile.contextOptions.isMobile).toBeUndefined();
+
+    expect(() => resolveDevice({ name: 'Bad', descriptor: 'Nokia 3310' })).toThrow(/Unknown device descriptor/);
+    expect(() => resolveDevice({ name: 'Empty' })).toThrow(/width\/height/);
+  });
+});
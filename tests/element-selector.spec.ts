@@ -0,0 +1,78 @@
+import { chromium, Browser, Page } from 'playwright';
+import { installSelectorGenerator, SELECTOR_SCRIPT, uniqueSelector } from '../src/utils/element-selector';
+import { ScreenshotAnalyzer } from '../src/utils/screenshot-analyzer';
+import { StaticServer } from '../src/utils/static-server';
+import { describeWithBrowser, fixtureConfig, startFixtureSite } from './fixture-site';
+
+describe('element selector script', () => {
+  test('is self-contained so it can run in the page', () => {
+    const window: any = {};
+    new Function('window', SELECTOR_SCRIPT)(window);
+
+    expect(typeof window.__uxSelector).toBe('function');
+    expect(window.__uxSelector(null)).toEqual({ css: 'unknown', xpath: '' });
+  });
+
+  test('describes nodes that are not inside an element by name', () => {
+    expect(uniqueSelector({ nodeType: 9, nodeName: '#document', parentElement: null } as unknown as Node)).toEqual({ css: '#document', xpath: '' });
+  });
+});
+
+describeWithBrowser('unique selectors in the page', () => {
+  let server: StaticServer;
+  let browser: Browser;
+  let page: Page;
+
+  beforeAll(async () => {
+    server = await startFixtureSite();
+    browser = await chromium.launch();
+    const ctx = await browser.newContext();
+    await installSelectorGenerator(ctx);
+    page = await ctx.newPage();
+    await page.goto(`${server.url}/selectors.html`);
+  });
+
+  afterAll(async () => {
+    await browser?.close();
+    await server?.close();
+  });
+
+  test('every element gets a CSS selector and an XPath that match only that element', async () => {
+    const mismatches = await page.evaluate(() => Array.from(document.querySelectorAll('body *')).flatMap(el => {
+      const { css, xpath } = (window as any).__uxSelector(el);
+      const byCss = document.querySelectorAll(css);
+      const byXpath = document.evaluate(xpath, document, null, XPathResult.ORDERED_NODE_SNAPSHOT_TYPE, null);
+      const ok = byCss.length === 1 && byCss[0] === el && byXpath.snapshotLength === 1 && byXpath.snapshotItem(0) === el;
+      return ok ? [] : [`${css} | ${xpath}`];
+    }));
+
+    expect(mismatches).toEqual([]);
+  });
+
+  test('prefers ids, attributes and stable classes over positions', async () => {
+    const selectors = await page.evaluate(() => [
+      'main', 'input', 'label', 'footer p:last-child', 'p', 'div:nth-of-type(2) button',
+    ].map(sel => (window as any).__uxSelector(document.querySelector(sel)).css));
+
+    expect(selectors).toEqual([
+      '#main',
+      'input[name="email"]',
+      'label[for="email"]',
+      'p[data-testid="legal"]',
+      // Generated ids and hashed classes are skipped
+      '#main p',
+      // Positional paths start at the closest stable id
+      '#main > div:nth-of-type(2) > button',
+    ]);
+  });
+
+  test('recordProblemArea falls back to the XPath when the CSS selector matches nothing', async () => {
+    const analyzer = new ScreenshotAnalyzer(fixtureConfig(server.url).screenshotsDir);
+    const issue = await analyzer.recordProblemArea(
+      page, 'Visual Design', 'Test', { css: '.renamed-class', xpath: '//ul/li[2]' }, 'Second item', 'low', 'None', false
+    );
+
+    expect(issue).toMatchObject({ selector: '.renamed-class', xpath: '//ul/li[2]' });
+    expect(issue!.width).toBeGreaterThan(0);
+  });
+});
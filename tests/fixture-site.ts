@@ -0,0 +1,47 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { chromium } from 'playwright';
+import { defaultConfig, TestResult } from '../src/testers/ux-ui-tester';
+import { TestConfig } from '../src/config/config.example';
+import { startStaticServer, StaticServer } from '../src/utils/static-server';
+
+// ========================================
+// Fixture site helpers for end-to-end specs
+// ========================================
+
+export const FIXTURE_SITE_DIR = path.join(__dirname, 'fixtures', 'site');
+
+// Browser specs are skipped where Playwright browsers are not installed (npx playwright install chromium)
+export const browserInstalled = fs.existsSync(chromium.executablePath());
+export const describeWithBrowser = browserInstalled ? describe : describe.skip;
+
+export function startFixtureSite(): Promise<StaticServer> {
+  return startStaticServer(FIXTURE_SITE_DIR);
+}
+
+/**
+ * Hermetic config: fixture URL, temp output dir, one desktop and one mobile device, no throttling
+ */
+export function fixtureConfig(url: string, overrides: Partial<TestConfig> = {}): TestConfig {
+  const outputDir = fs.mkdtempSync(path.join(os.tmpdir(), 'ux-fixture-'));
+  return {
+    ...defaultConfig,
+    url,
+    outputDir,
+    screenshotsDir: path.join(outputDir, 'screenshots'),
+    devices: [
+      { name: 'Desktop', width: 1280, height: 800 },
+      { name: 'Mobile', descriptor: 'iPhone 12' },
+    ],
+    browser: { headless: true },
+    ...overrides,
+  };
+}
+
+/**
+ * Compact view of results for exact comparisons (timestamps and browser are left out)
+ */
+export function summarize(results: TestResult[]) {
+  return results.map(r => ({ category: r.category, test: r.test, status: r.status, score: r.score, severity: r.severity, details: r.details }));
+}
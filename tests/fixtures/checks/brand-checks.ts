@@ -0,0 +1,36 @@
+import { UXCheck } from '../../../src/utils/check-registry';
+
+// Example team module: brand-specific rules registered through config.checks.modules
+const brandLogo: UXCheck = {
+  name: 'brand-logo',
+  category: 'Brand',
+  async run(page) {
+    const hasLogo = await page.locator('header img[alt*="logo" i], header svg[aria-label*="logo" i]').count() > 0;
+    return [{
+      test: 'Brand Logo',
+      status: hasLogo ? 'pass' : 'fail',
+      score: hasLogo ? 10 : 0,
+      details: hasLogo ? 'Logo found in the header' : 'No logo in the page header',
+      severity: 'high',
+    }];
+  },
+};
+
+const footerLegal: UXCheck = {
+  name: 'footer-legal',
+  category: 'Brand',
+  enabled: config => config.tests.navigation,
+  async run(page) {
+    const links = await page.locator('footer a').allTextContents();
+    const hasPrivacy = links.some(text => /privacy/i.test(text));
+    return [{
+      test: 'Privacy Link',
+      status: hasPrivacy ? 'pass' : 'warning',
+      score: hasPrivacy ? 10 : 6,
+      details: hasPrivacy ? 'Footer links to the privacy policy' : 'Footer has no privacy policy link',
+      recommendations: hasPrivacy ? undefined : ['Link the privacy policy from the footer on every page'],
+    }];
+  },
+};
+
+export default [brandLogo, footerLegal];
@@ -0,0 +1,14 @@
+// Example journey: sign in, audit the dashboard, then audit it with the settings dialog open
+export default {
+  name: 'Sign in',
+  steps: [
+    { action: 'fill', selector: '#username', value: 'fixture-user' },
+    { action: 'fill', selector: '#password', value: '${FIXTURE_PASSWORD}' },
+    { action: 'click', selector: 'button[type="submit"]' },
+    { action: 'waitFor', url: '**/dashboard.html*' },
+    { action: 'checkpoint', name: 'Dashboard' },
+    { action: 'click', selector: '#open-settings' },
+    { action: 'waitFor', selector: '#settings-dialog' },
+    { action: 'checkpoint', name: 'Settings dialog' },
+  ],
+};
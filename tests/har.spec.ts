@@ -0,0 +1,95 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { UXReport, UXUITester } from '../src/testers/ux-ui-tester';
+import { finishHarRecording, harPartsDir, mergeHarFiles, nextHarPart, resetHarParts } from '../src/utils/har';
+import { describeWithBrowser, fixtureConfig, startFixtureSite, summarize } from './fixture-site';
+
+const tmpDir = () => fs.mkdtempSync(path.join(os.tmpdir(), 'ux-har-'));
+
+function writePart(file: string, pageId: string, entries: Array<{ url: string; startedDateTime: string }>): void {
+  fs.writeFileSync(file, JSON.stringify({
+    log: {
+      version: '1.2',
+      creator: { name: 'Playwright', version: '1.40.0' },
+      pages: [{ id: pageId, title: pageId }],
+      entries: entries.map(e => ({ pageref: pageId, startedDateTime: e.startedDateTime, request: { method: 'GET', url: e.url } })),
+    },
+  }));
+}
+
+describe('HAR recording', () => {
+  test('merges the pages and entries of every context in request order', () => {
+    const harPath = path.join(tmpDir(), 'har', 'site.har');
+    resetHarParts(harPath);
+    const main = nextHarPart(harPath);
+    const perf = nextHarPart(harPath);
+    expect(main).not.toBe(perf);
+
+    writePart(main, 'page@1', [
+      { url: 'http://127.0.0.1/good.html', startedDateTime: '2026-01-01T00:00:00.000Z' },
+      { url: 'http://127.0.0.1/images/hero.png', startedDateTime: '2026-01-01T00:00:02.000Z' },
+    ]);
+    writePart(perf, 'page@2', [
+      { url: 'http://127.0.0.1/good.html?perf', startedDateTime: '2026-01-01T00:00:01.000Z' },
+    ]);
+
+    expect(finishHarRecording(harPath)).toEqual({ entries: 3, parts: 2 });
+
+    const har = JSON.parse(fs.readFileSync(harPath, 'utf-8'));
+    expect(har.log.creator.name).toBe('Playwright');
+    expect(har.log.pages.map((p: any) => p.id).sort()).toEqual(['page@1', 'page@2']);
+    expect(har.log.entries.map((e: any) => e.request.url)).toEqual([
+      'http://127.0.0.1/good.html',
+      'http://127.0.0.1/good.html?perf',
+      'http://127.0.0.1/images/hero.png',
+    ]);
+    expect(fs.existsSync(harPartsDir(harPath))).toBe(false);
+  });
+
+  test('starting a recording drops parts from an interrupted run', () => {
+    const harPath = path.join(tmpDir(), 'site.har');
+    resetHarParts(harPath);
+    writePart(nextHarPart(harPath), 'page@old', []);
+
+    resetHarParts(harPath);
+
+    expect(fs.readdirSync(harPartsDir(harPath))).toEqual([]);
+    expect(() => finishHarRecording(harPath)).toThrow(/No HAR recorded/);
+  });
+
+  test('rejects an empty merge', () => {
+    expect(() => mergeHarFiles([], path.join(tmpDir(), 'site.har'))).toThrow(/No HAR recorded/);
+  });
+});
+
+describeWithBrowser('HAR record and replay', () => {
+  test('replays a recorded fixture run offline with the same results', async () => {
+    const harPath = path.join(tmpDir(), 'site.har');
+    const tests = {
+      performance: false, visualDesign: true, navigation: true, readability: true, forms: true,
+      interactive: true, responsive: true, accessibility: true, errorHandling: false,
+    };
+
+    const site = await startFixtureSite();
+    let recorded: UXReport;
+    try {
+      recorded = await new UXUITester(fixtureConfig(`${site.url}/good.html`, {
+        tests,
+        har: { mode: 'record', path: harPath },
+      })).runAllTests();
+    } finally {
+      await site.close();
+    }
+
+    // The fixture server is gone: every request (main page and each responsive context) must come from the HAR
+    const replayed = await new UXUITester(fixtureConfig(recorded.url, {
+      tests,
+      har: { mode: 'replay', path: harPath },
+    })).runAllTests();
+
+    expect(summarize(replayed.results)).toEqual(summarize(recorded.results));
+    const issues = (report: UXReport) => report.responsive.map(r => ({ device: r.device, issues: r.issues }));
+    expect(issues(replayed)).toEqual(issues(recorded));
+  });
+});
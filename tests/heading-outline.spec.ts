@@ -0,0 +1,53 @@
+import { analyzeOutline, formatOutline, HeadingInfo } from '../src/utils/heading-outline';
+
+function heading(level: number, text: string, extra: Partial<HeadingInfo> = {}): HeadingInfo {
+  return { level, tag: `h${level}`, text, selector: { css: `h${level}`, xpath: `//h${level}` }, hiddenFromAT: false, landmark: 'main', ...extra };
+}
+
+describe('heading outline', () => {
+  test('flags levels skipped going down but not going back up', () => {
+    const analysis = analyzeOutline([
+      heading(1, 'Shop'),
+      heading(2, 'Featured'),
+      heading(4, 'Deal'),
+      heading(2, 'Reviews'),
+      heading(3, 'Latest'),
+      heading(6, 'Footnote'),
+    ]);
+
+    expect(analysis.skipped.map(s => `${s.previous.text} → ${s.heading.text}`)).toEqual(['Featured → Deal', 'Latest → Footnote']);
+  });
+
+  test('headings hidden from assistive tech are reported but left out of the outline', () => {
+    const analysis = analyzeOutline([
+      heading(1, 'Shop'),
+      heading(3, 'Decorative', { hiddenFromAT: true }),
+      heading(2, 'Featured'),
+      heading(3, ''),
+    ]);
+
+    expect(analysis.outline.map(h => h.text)).toEqual(['Shop', 'Featured', '']);
+    expect(analysis.skipped).toEqual([]);
+    expect(analysis.hidden.map(h => h.text)).toEqual(['Decorative']);
+    expect(analysis.empty).toHaveLength(1);
+  });
+
+  test('collects the landmarks that hold an H1', () => {
+    const analysis = analyzeOutline([
+      heading(1, 'Brand', { landmark: 'banner' }),
+      heading(1, 'Products'),
+      heading(1, 'Also main'),
+    ]);
+
+    expect(analysis.h1s).toHaveLength(3);
+    expect(analysis.h1Landmarks).toEqual(['banner', 'main']);
+    expect(analyzeOutline([heading(1, 'One'), heading(1, 'Two')]).h1Landmarks).toEqual(['main']);
+  });
+
+  test('formats a compact outline', () => {
+    const outline = [heading(1, 'Shop'), heading(2, 'x'.repeat(45)), heading(2, 'Newsletter')];
+
+    expect(formatOutline(outline)).toBe(`h1 "Shop", h2 "${'x'.repeat(40)}…", h2 "Newsletter"`);
+    expect(formatOutline(outline, 1)).toBe('h1 "Shop", … (+2)');
+  });
+});
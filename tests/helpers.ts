@@ -0,0 +1,44 @@
+import { UXReport, TestResult, PerformanceMetrics, AccessibilityIssue, emptyPerformanceMetrics } from '../src/testers/ux-ui-tester';
+
+// ========================================
+// Shared report builders for unit specs
+// ========================================
+
+export function makeResult(overrides: Partial<TestResult> = {}): TestResult {
+  return { category: 'SEO', test: 'Page Title', status: 'pass', score: 10, details: '', severity: 'low', timestamp: '', ...overrides };
+}
+
+export function makeA11yIssue(type: string, overrides: Partial<AccessibilityIssue> = {}): AccessibilityIssue {
+  return { type, severity: 'critical', element: 'img', description: '', wcagLevel: '', ...overrides };
+}
+
+type ReportOverrides = Partial<Omit<UXReport, 'performance'>> & { performance?: Partial<PerformanceMetrics> };
+
+/**
+ * UXReport with plausible defaults; performance overrides are merged into the default metrics
+ */
+export function makeReport(overrides: ReportOverrides = {}): UXReport {
+  const { performance, ...rest } = overrides;
+  return {
+    url: 'https://example.com/',
+    testDate: '2026-01-01T00:00:00.000Z',
+    overallScore: 80,
+    results: [],
+    accessibility: [],
+    responsive: [],
+    recommendations: [],
+    ...rest,
+    performance: {
+      ...emptyPerformanceMetrics(),
+      loadTime: 1000,
+      timeToFirstByte: 200,
+      domContentLoaded: 10,
+      firstPaint: 100,
+      firstContentfulPaint: 100,
+      largestContentfulPaint: 2000,
+      totalSize: 1000,
+      requestCount: 10,
+      ...performance,
+    },
+  };
+}
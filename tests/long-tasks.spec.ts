@@ -0,0 +1,41 @@
+import { computeTBT, attributeLongTasks, TraceEvent, UNATTRIBUTED } from '../src/utils/long-tasks';
+
+describe('long tasks', () => {
+  test('TBT counts time over 50ms after FCP only', () => {
+    expect(computeTBT([
+      { startTime: 0, duration: 200 },      // ends before FCP
+      { startTime: 900, duration: 250 },    // 150ms after FCP -> 100ms blocking
+      { startTime: 2000, duration: 120 },   // 70ms blocking
+      { startTime: 3000, duration: 40 },    // not a long task
+    ], 1000)).toBe(170);
+  });
+
+  test('TBT ignores tasks from scripted interactions after the load window', () => {
+    const tasks = [
+      { startTime: 1200, duration: 150 },   // during load -> 100ms blocking
+      { startTime: 2900, duration: 200 },   // straddles the window end -> 100ms inside, 50ms blocking
+      { startTime: 3500, duration: 400 },   // CTA click handler
+    ];
+
+    expect(computeTBT(tasks, 1000, 3000)).toBe(150);
+    expect(computeTBT(tasks, 1000)).toBe(600);
+  });
+
+  test('attributes long trace tasks to the longest script inside them', () => {
+    const main = { pid: 1, tid: 7 };
+    const events: TraceEvent[] = [
+      { name: 'thread_name', ph: 'M', ts: 0, ...main, args: { name: 'CrRendererMain' } },
+      { name: 'RunTask', ph: 'X', ts: 1000, dur: 150000, ...main },
+      { name: 'EvaluateScript', ph: 'X', ts: 2000, dur: 20000, ...main, args: { data: { url: 'https://example.com/app.js' } } },
+      { name: 'FunctionCall', ph: 'X', ts: 30000, dur: 110000, ...main, args: { data: { url: 'https://widgets.example.net/chat.js' } } },
+      { name: 'RunTask', ph: 'X', ts: 500000, dur: 80000, ...main },
+      { name: 'RunTask', ph: 'X', ts: 900000, dur: 30000, ...main },   // short task
+      { name: 'RunTask', ph: 'X', ts: 0, dur: 900000, pid: 2, tid: 3 }, // not the renderer main thread
+    ];
+
+    expect(attributeLongTasks(events, 'https://example.com')).toEqual([
+      { url: 'https://widgets.example.net/chat.js', blockingTime: 100, taskCount: 1, totalDuration: 150, thirdParty: true },
+      { url: UNATTRIBUTED, blockingTime: 30, taskCount: 1, totalDuration: 80, thirdParty: false },
+    ]);
+  });
+});
@@ -0,0 +1,44 @@
+import { CONFIG_ENVIRONMENTS, getConfig } from '../src/config/config.example';
+import { buildResourceBreakdown } from '../src/utils/resource-breakdown';
+import { evaluateBudgets } from '../src/utils/performance-budgets';
+
+const timing = (name: string, initiatorType: string, kb: number) => ({
+  name, initiatorType, startTime: 0, duration: 50, transferSize: kb * 1024, encodedBodySize: kb * 1024,
+});
+
+const breakdown = buildResourceBreakdown([
+  timing('https://example.com/', 'navigation', 20),
+  timing('https://example.com/vendor.js', 'script', 250),
+  timing('https://example.com/app.js', 'script', 120),
+  timing('https://cdn.widget.io/w.js', 'script', 40),
+  timing('https://stats.tracker.net/t.gif', 'img', 1),
+], 'https://example.com/');
+
+describe('evaluateBudgets', () => {
+  test('emits one result per budget and lists the largest offenders', () => {
+    const results = evaluateBudgets(breakdown, {
+      resourceSizes: { script: 300, image: 1024 },
+      requestCounts: { total: 60 },
+      thirdPartyOrigins: 1,
+    });
+
+    expect(results.map(r => [r.name, r.actual, r.passed])).toEqual([
+      ['script size ≤ 300KB', 410, false],
+      ['image size ≤ 1024KB', 1, true],
+      ['total requests ≤ 60', 5, true],
+      ['third-party origins ≤ 1', 2, false],
+    ]);
+    expect(results[0].offenders[0]).toBe('https://example.com/vendor.js (250.0KB)');
+    expect(results[1].offenders).toEqual([]);
+    expect(results[3].offenders).toHaveLength(2);
+  });
+
+  test('no budgets configured means no results', () => {
+    expect(evaluateBudgets(breakdown, {})).toEqual([]);
+  });
+
+  test('presets leave budgets to the user', () => {
+    // Budget results count toward the score and the gate, so they are opt-in
+    CONFIG_ENVIRONMENTS.forEach(env => expect(getConfig(env).budgets).toBeUndefined());
+  });
+});
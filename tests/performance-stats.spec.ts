@@ -0,0 +1,27 @@
+import { percentile, summarizeRuns } from '../src/utils/performance-stats';
+
+describe('performance run statistics', () => {
+  test('percentile interpolates between ranks', () => {
+    expect(percentile([400, 100, 300, 200], 50)).toBe(250);
+    expect(percentile([100, 200, 300], 75)).toBe(250);
+    expect(percentile([42], 75)).toBe(42);
+    expect(percentile([], 50)).toBe(0);
+  });
+
+  test('summarizeRuns reports median and p75 per timing', () => {
+    const timing = (loadTime: number) => ({
+      timeToFirstByte: loadTime / 10,
+      domContentLoaded: loadTime / 2,
+      loadTime,
+      firstContentfulPaint: loadTime / 4,
+      largestContentfulPaint: loadTime / 3,
+    });
+    const summary = summarizeRuns([timing(3000), timing(1000), timing(2000)]);
+
+    expect(summary.count).toBe(3);
+    expect(summary.median.loadTime).toBe(2000);
+    expect(summary.median.timeToFirstByte).toBe(200);
+    expect(summary.p75.loadTime).toBe(2500);
+    expect(summary.samples).toHaveLength(3);
+  });
+});
@@ -1,16 +1,30 @@
 import { UXUITester } from '../src/testers/ux-ui-tester';
+import { StaticServer } from '../src/utils/static-server';
+import { describeWithBrowser, fixtureConfig, startFixtureSite } from './fixture-site';
 
 jest.setTimeout(120_000); // allow up to 2 minutes for the end-to-end run
 
-describe('End-to-end UX/UI run (quick)', () => {
+describeWithBrowser('End-to-end UX/UI run (quick)', () => {
+  let server: StaticServer;
+
+  beforeAll(async () => {
+    server = await startFixtureSite();
+  });
+
+  afterAll(async () => {
+    await server?.close();
+  });
+
   test('runAllTests completes and returns a valid report', async () => {
-    const tester = new UXUITester();
+    const tester = new UXUITester(fixtureConfig(`${server.url}/good.html`));
 
     const report = await tester.runAllTests();
 
     expect(report).toBeDefined();
+    expect(report.url).toBe(`${server.url}/good.html`);
     expect(typeof report.overallScore).toBe('number');
     expect(report.results.length).toBeGreaterThan(0);
+    expect(report.results.filter(r => r.status === 'fail')).toEqual([]);
     expect(report.performance).toBeDefined();
     expect(report.performance.largestContentfulPaint).toBeGreaterThanOrEqual(0);
 
@@ -0,0 +1,63 @@
+import { diffReports } from '../src/utils/report-diff';
+import { ReportHTMLGenerator } from '../src/utils/report-html-generator';
+import { UXReport, TestResult } from '../src/testers/ux-ui-tester';
+import { makeA11yIssue, makeReport, makeResult } from './helpers';
+
+function result(category: string, test: string, status: TestResult['status'], score: number): TestResult {
+  return makeResult({ category, test, status, score, severity: 'medium' });
+}
+
+function diffReport(overallScore: number, results: TestResult[], lcp: number, a11yTypes: string[]): UXReport {
+  return makeReport({
+    overallScore,
+    results,
+    performance: { largestContentfulPaint: lcp, totalSize: 2000, requestCount: 20 },
+    accessibility: a11yTypes.map(type => makeA11yIssue(type, { severity: 'serious', element: 'body' })),
+  });
+}
+
+describe('report diff', () => {
+  const baseline = diffReport(70, [
+    result('Visual Design', 'Image Alt Text', 'fail', 4),
+    result('Performance', 'Largest Contentful Paint', 'pass', 10),
+    result('SEO', 'Canonical Tag', 'warning', 7),
+    result('Forms', 'Input Labels', 'fail', 0),
+    result('Accessibility', 'Keyboard Navigation', 'pass', 10),
+    result('Accessibility', 'Keyboard Navigation', 'pass', 10),
+  ], 2000, ['image-alt', 'color-contrast']);
+
+  const current = diffReport(75, [
+    result('Visual Design', 'Image Alt Text', 'pass', 10),
+    result('Performance', 'Largest Contentful Paint', 'warning', 7),
+    result('SEO', 'Canonical Tag', 'warning', 7),
+    result('Forms', 'Input Labels', 'warning', 5),
+    result('Accessibility', 'Keyboard Navigation', 'pass', 10),
+    result('Accessibility', 'Keyboard Navigation', 'fail', 0),
+    result('Error Handling', '404 Page', 'pass', 10),
+  ], 3000, ['color-contrast', 'button-name']);
+
+  const diff = diffReports(baseline, current);
+
+  test('classifies test results by category + test', () => {
+    expect(diff.scoreDelta).toBe(5);
+    expect(diff.results.fixed.map(r => r.test)).toEqual(['Image Alt Text']);
+    expect(diff.results.regressed.map(r => r.test)).toEqual(['Largest Contentful Paint', 'Keyboard Navigation']);
+    expect(diff.results.changed.map(r => [r.test, r.scoreDelta])).toEqual([['Input Labels', 5]]);
+    expect(diff.results.new.map(r => r.test)).toEqual(['404 Page']);
+    expect(diff.results.removed).toEqual([]);
+  });
+
+  test('reports performance deltas and accessibility issue changes', () => {
+    const lcp = diff.performance.find(m => m.metric === 'largestContentfulPaint')!;
+    expect(lcp).toEqual({ metric: 'largestContentfulPaint', baseline: 2000, current: 3000, delta: 1000 });
+    expect(diff.accessibility.new.map(i => i.type)).toEqual(['button-name']);
+    expect(diff.accessibility.resolved.map(i => i.type)).toEqual(['image-alt']);
+  });
+
+  test('renders an HTML comparison section', () => {
+    const html = ReportHTMLGenerator.generateComparisonSection(diff);
+    expect(html).toContain('70 → 75 (+5)');
+    expect(html).toContain('Regressed (2)');
+    expect(html).toContain('button-name');
+  });
+});
@@ -0,0 +1,54 @@
+import { buildResourceBreakdown, classifyResource, isThirdPartyUrl, siteOf } from '../src/utils/resource-breakdown';
+import { ReportHTMLGenerator } from '../src/utils/report-html-generator';
+
+const timing = (name: string, initiatorType: string, startTime: number, transferSize: number) => ({
+  name, initiatorType, startTime, duration: 100, transferSize, encodedBodySize: transferSize,
+});
+
+describe('resource breakdown', () => {
+  test('classifies resources and third parties by site', () => {
+    expect(classifyResource('https://example.com/', 'navigation')).toBe('document');
+    expect(classifyResource('https://example.com/app.js?v=2', 'script')).toBe('script');
+    expect(classifyResource('https://fonts.gstatic.com/s/inter.woff2', 'css')).toBe('font');
+    expect(classifyResource('https://example.com/main.css', 'link')).toBe('css');
+    expect(classifyResource('https://example.com/hero.webp', 'img')).toBe('image');
+    expect(classifyResource('https://api.example.com/items', 'fetch')).toBe('xhr');
+
+    expect(siteOf('cdn.shop.example.co.th')).toBe('example.co.th');
+    expect(isThirdPartyUrl('https://cdn.example.com/a.js', 'https://www.example.com/')).toBe(false);
+    expect(isThirdPartyUrl('https://www.googletagmanager.com/gtm.js', 'https://www.example.com/')).toBe(true);
+  });
+
+  test('finds the registrable domain from the Public Suffix List', () => {
+    expect(siteOf('abc.io')).toBe('abc.io');
+    expect(siteOf('cdn.abc.io')).toBe('abc.io');
+    expect(siteOf('www.xyz.co.uk')).toBe('xyz.co.uk');
+    expect(siteOf('co.uk')).toBe('co.uk');
+    expect(siteOf('localhost')).toBe('localhost');
+    expect(siteOf('127.0.0.1')).toBe('127.0.0.1');
+
+    expect(isThirdPartyUrl('https://static.abc.io/app.js', 'https://abc.io/')).toBe(false);
+    expect(isThirdPartyUrl('https://xyz.co.uk/a.js', 'https://shop.co.uk/')).toBe(true);
+    // Sites on a shared hosting suffix are separate parties
+    expect(isThirdPartyUrl('https://other.github.io/a.js', 'https://me.github.io/')).toBe(true);
+  });
+
+  test('totals bytes by type, origin and party, filling hidden cross-origin sizes', () => {
+    const breakdown = buildResourceBreakdown([
+      timing('https://www.example.com/', 'navigation', 0, 20000),
+      timing('https://www.example.com/app.js', 'script', 50, 100000),
+      timing('https://widgets.chat.io/embed.js', 'script', 80, 0),
+      timing('https://www.example.com/hero.jpg', 'img', 120, 300000),
+    ], 'https://www.example.com/', new Map([['https://widgets.chat.io/embed.js', 250000]]));
+
+    expect(breakdown.resources).toHaveLength(4);
+    expect(breakdown.byType.script).toEqual({ count: 2, transferSize: 350000, totalDuration: 200 });
+    expect(breakdown.thirdParty).toEqual({ count: 1, transferSize: 250000, totalDuration: 100 });
+    expect(breakdown.firstParty.transferSize).toBe(420000);
+    expect(breakdown.byOrigin[0]).toMatchObject({ origin: 'https://www.example.com', count: 3 });
+
+    const html = ReportHTMLGenerator.generateWaterfallSection(breakdown);
+    expect(html).toContain('Resource Waterfall');
+    expect(html).toContain('embed.js');
+  });
+});
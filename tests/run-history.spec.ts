@@ -0,0 +1,59 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { appendRun, createHistoryEntry, readHistory, generateTrendHTML } from '../src/utils/run-history';
+import { UXReport } from '../src/testers/ux-ui-tester';
+import { makeA11yIssue, makeReport } from './helpers';
+
+function historyReport(testDate: string, overallScore: number): UXReport {
+  return makeReport({
+    testDate,
+    overallScore,
+    performance: { firstContentfulPaint: 900, largestContentfulPaint: 2100, totalSize: 2048, requestCount: 12 },
+    accessibility: [makeA11yIssue('image-alt'), makeA11yIssue('region', { severity: 'moderate', element: 'div' })],
+  });
+}
+
+describe('run history', () => {
+  let dir: string;
+  let historyPath: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'ux-history-'));
+    historyPath = path.join(dir, 'history', 'ux-history.jsonl');
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  test('appends runs as JSONL and reads them back oldest first', () => {
+    appendRun(historyPath, createHistoryEntry(historyReport('2026-02-01T00:00:00.000Z', 80), { label: 'v2', gitSha: 'abc123' }));
+    appendRun(historyPath, createHistoryEntry(historyReport('2026-01-01T00:00:00.000Z', 70), { label: 'v1' }));
+    fs.appendFileSync(historyPath, '{"truncated": \n');
+
+    const entries = readHistory(historyPath);
+    expect(entries.map(e => e.label)).toEqual(['v1', 'v2']);
+    expect(entries[1]).toMatchObject({
+      gitSha: 'abc123',
+      overallScore: 80,
+      lcp: 2100,
+      accessibility: { critical: 1, serious: 0, moderate: 1, minor: 0, total: 2 },
+    });
+    expect(entries[1].report.url).toBe('https://example.com/');
+  });
+
+  test('returns an empty history when the file does not exist', () => {
+    expect(readHistory(historyPath)).toEqual([]);
+  });
+
+  test('renders one chart per tracked metric', () => {
+    appendRun(historyPath, createHistoryEntry(historyReport('2026-01-01T00:00:00.000Z', 70), { label: 'v1' }));
+    appendRun(historyPath, createHistoryEntry(historyReport('2026-02-01T00:00:00.000Z', 80), { label: 'v2' }));
+
+    const html = generateTrendHTML(readHistory(historyPath));
+    expect(html).toContain('2 runs recorded');
+    expect((html.match(/<svg /g) || []).length).toBe(7);
+    expect(html).toContain('Largest Contentful Paint');
+  });
+});
@@ -0,0 +1,94 @@
+import fs from 'fs';
+import { buildAnnotationLegend, buildAnnotationOverlay, ElementIssue } from '../src/utils/screenshot-analyzer';
+import { ReportHTMLGenerator } from '../src/utils/report-html-generator';
+import { UXUITester, defaultConfig } from '../src/testers/ux-ui-tester';
+import { StaticServer } from '../src/utils/static-server';
+import { describeWithBrowser, fixtureConfig, startFixtureSite } from './fixture-site';
+
+const issue = (overrides: Partial<ElementIssue>): ElementIssue => ({
+  selector: '#hero',
+  x: 10,
+  y: 20,
+  width: 100,
+  height: 50,
+  description: 'Image missing alt text',
+  severity: 'high',
+  recommendation: 'Add alt text',
+  ...overrides,
+});
+
+describe('annotated screenshots', () => {
+  test('overlay draws a numbered, severity-coloured box per issue in image pixels', () => {
+    const svg = buildAnnotationOverlay([
+      issue({}),
+      issue({ selector: '.cta', x: 0, y: 0, width: 40, height: 20, severity: 'low' }),
+    ], 800, 600, 2);
+
+    expect(svg).toContain('width="800" height="600"');
+    expect(svg).toContain('<rect x="20" y="40" width="200" height="100" fill="#d32f2f"');
+    expect(svg).toContain('<rect x="0" y="0" width="80" height="40" fill="#388e3c"');
+    // Badges at the top-left edge are pulled inside the image
+    expect(svg).toContain('<circle cx="24" cy="24" r="24" fill="#388e3c"');
+    expect(svg.match(/<text[^>]*>(\d+)<\/text>/g)!.map(t => t.replace(/<[^>]+>/g, ''))).toEqual(['1', '2']);
+  });
+
+  test('legend lists every marker with escaped, shortened text', () => {
+    const legend = buildAnnotationLegend([
+      issue({ description: 'Text <small> & "cramped"', severity: 'medium' }),
+      issue({ description: 'x'.repeat(300) }),
+    ], 400);
+
+    expect(legend.height).toBe(16 * 2 + 28 * 3);
+    expect(legend.svg).toContain('Issues (2)');
+    expect(legend.svg).toContain('[medium] Text &lt;small&gt; &amp; &quot;cramped&quot; — #hero');
+    expect(legend.svg).toContain('…');
+    expect(legend.svg).not.toContain('x'.repeat(100));
+  });
+
+  test('HTML report links markers and legend entries to each other', () => {
+    const marked = [
+      issue({ marker: 2, x: 200, y: 100, annotatedScreenshot: '/out/screenshots/annotated-page-1.png' }),
+      issue({ marker: 1, annotatedScreenshot: '/out/screenshots/annotated-page-1.png', severity: 'low' }),
+    ];
+    const html = ReportHTMLGenerator.generateAnnotatedScreenshotSection(
+      { path: '/out/screenshots/annotated-page-1.png', width: 1000, height: 400 }, marked, 'https://example.com/'
+    );
+
+    expect(html).toContain('src="./screenshots/annotated-page-1.png"');
+    expect(html).toContain('id="marker-annotated-page-1-2" class="annotated-marker" href="#marker-annotated-page-1-2-legend"');
+    expect(html).toContain('left: 20.00%; top: 25.00%; width: 10.00%; height: 12.50%');
+    expect(html.indexOf('marker-annotated-page-1-1-legend"')).toBeLessThan(html.indexOf('marker-annotated-page-1-2-legend"'));
+
+    const links = ReportHTMLGenerator.generateMarkerLinks(marked);
+    expect(links).toContain('href="#marker-annotated-page-1-2"');
+    expect(links).toContain('background: #388e3c');
+    expect(ReportHTMLGenerator.generateMarkerLinks([issue({})])).toBe('');
+  });
+});
+
+describeWithBrowser('annotated screenshot capture', () => {
+  let server: StaticServer;
+
+  beforeAll(async () => {
+    server = await startFixtureSite();
+  });
+
+  afterAll(async () => {
+    await server.close();
+  });
+
+  test('attaches problem elements to results and draws them on the page capture', async () => {
+    const tester = new UXUITester(fixtureConfig(`${server.url}/missing-alt.html`, {
+      tests: { ...defaultConfig.tests, performance: false, navigation: false, readability: false, forms: false, interactive: false, responsive: false, accessibility: false, errorHandling: false },
+    }));
+    const report = await tester.runAllTests();
+
+    const alt = report.results.find(r => r.test === 'Image Alt Text')!;
+    expect(alt.elements!.map(e => [e.selector, e.marker])).toEqual([['#hero', 1], ['img.thumb', 2]]);
+    expect(report.annotatedScreenshot).toBeDefined();
+    expect(fs.existsSync(report.annotatedScreenshot!.path)).toBe(true);
+    expect(alt.elements!.every(e => e.annotatedScreenshot === report.annotatedScreenshot!.path)).toBe(true);
+    // Legend is added under the 800px page
+    expect(report.annotatedScreenshot!.height).toBeGreaterThan(800);
+  });
+});
@@ -0,0 +1,65 @@
+import { normalizeUrl, matchesPattern, isCrawlable, parseSitemap, aggregateSiteReport } from '../src/utils/site-crawler';
+import { UXReport } from '../src/testers/ux-ui-tester';
+import { makeA11yIssue, makeReport, makeResult } from './helpers';
+
+function pageReport(url: string, overallScore: number, lcp: number): UXReport {
+  return makeReport({
+    url,
+    overallScore,
+    results: [makeResult()],
+    performance: { largestContentfulPaint: lcp },
+    accessibility: [makeA11yIssue('image-alt', { wcagLevel: 'wcag2a' })],
+    recommendations: ['Shared recommendation'],
+  });
+}
+
+describe('site crawler helpers', () => {
+  test('normalizeUrl drops hashes', () => {
+    expect(normalizeUrl('https://example.com/about#team')).toBe('https://example.com/about');
+    expect(normalizeUrl('https://example.com')).toBe('https://example.com/');
+  });
+
+  test('matchesPattern supports * wildcards', () => {
+    expect(matchesPattern('/blog/post-1', '/blog/*')).toBe(true);
+    expect(matchesPattern('/blog', '/blog/*')).toBe(false);
+    expect(matchesPattern('/a.b', '/a.b')).toBe(true);
+    expect(matchesPattern('/axb', '/a.b')).toBe(false);
+  });
+
+  test('isCrawlable keeps same-origin pages and applies include/exclude', () => {
+    const crawl = { enabled: true, maxPages: 10, maxDepth: 2, include: ['/docs/*'], exclude: ['/docs/private/*'] };
+    const origin = 'https://example.com';
+
+    expect(isCrawlable('https://example.com/docs/intro', origin, crawl)).toBe(true);
+    expect(isCrawlable('https://example.com/docs/private/keys', origin, crawl)).toBe(false);
+    expect(isCrawlable('https://example.com/pricing', origin, crawl)).toBe(false);
+    expect(isCrawlable('https://other.com/docs/intro', origin, crawl)).toBe(false);
+    expect(isCrawlable('https://example.com/docs/guide.pdf', origin, crawl)).toBe(false);
+    expect(isCrawlable('mailto:hi@example.com', origin, crawl)).toBe(false);
+  });
+
+  test('parseSitemap distinguishes url sets from sitemap indexes', () => {
+    const urlset = '<urlset><url><loc>https://example.com/a?x=1&amp;y=2</loc></url><url><loc> https://example.com/b </loc></url></urlset>';
+    expect(parseSitemap(urlset)).toEqual({ pages: ['https://example.com/a?x=1&y=2', 'https://example.com/b'], sitemaps: [] });
+
+    const index = '<sitemapindex><sitemap><loc>https://example.com/sitemap-1.xml</loc></sitemap></sitemapindex>';
+    expect(parseSitemap(index)).toEqual({ pages: [], sitemaps: ['https://example.com/sitemap-1.xml'] });
+  });
+
+  test('aggregateSiteReport averages scores, keeps worst performance and tags results by page', () => {
+    const report = aggregateSiteReport('https://example.com/', [
+      { report: pageReport('https://example.com/', 90, 1500), depth: 0 },
+      { report: pageReport('https://example.com/about', 70, 3200), depth: 1 },
+    ]);
+
+    expect(report.overallScore).toBe(80);
+    expect(report.performance.largestContentfulPaint).toBe(3200);
+    expect(report.results.map(r => r.page)).toEqual(['https://example.com/', 'https://example.com/about']);
+    expect(report.accessibility).toHaveLength(2);
+    expect(report.recommendations).toEqual(['Shared recommendation']);
+    expect(report.pages!.map(p => [p.url, p.depth, p.overallScore])).toEqual([
+      ['https://example.com/', 0, 90],
+      ['https://example.com/about', 1, 70],
+    ]);
+  });
+});
@@ -0,0 +1,52 @@
+import http from 'http';
+import path from 'path';
+import { resolveStaticFile, startStaticServer, StaticServer } from '../src/utils/static-server';
+import { FIXTURE_SITE_DIR } from './fixture-site';
+
+function get(url: string): Promise<{ status: number; type: string; body: string }> {
+  return new Promise((resolve, reject) => {
+    http.get(url, res => {
+      let body = '';
+      res.on('data', chunk => { body += chunk; });
+      res.on('end', () => resolve({ status: res.statusCode || 0, type: String(res.headers['content-type']), body }));
+    }).on('error', reject);
+  });
+}
+
+describe('static fixture server', () => {
+  let server: StaticServer;
+
+  beforeAll(async () => {
+    server = await startStaticServer(FIXTURE_SITE_DIR);
+  });
+
+  afterAll(async () => {
+    await server.close();
+  });
+
+  test('serves files with their content type', async () => {
+    expect(server.url).toMatch(/^http:\/\/127\.0\.0\.1:\d+$/);
+
+    const page = await get(`${server.url}/good.html?utm=1`);
+    expect(page.status).toBe(200);
+    expect(page.type).toBe('text/html; charset=utf-8');
+    expect(page.body).toContain('<h1>Fixture Shop</h1>');
+
+    const image = await get(`${server.url}/images/hero.svg`);
+    expect(image.status).toBe(200);
+    expect(image.type).toBe('image/svg+xml');
+  });
+
+  test('answers missing paths with HTTP 404 and the site 404 page', async () => {
+    const missing = await get(`${server.url}/ux-audit-missing-page`);
+    expect(missing.status).toBe(404);
+    expect(missing.body).toContain('Back to the home page');
+  });
+
+  test('does not serve files outside the root directory', () => {
+    expect(resolveStaticFile(FIXTURE_SITE_DIR, '/good.html')).toBe(path.join(FIXTURE_SITE_DIR, 'good.html'));
+    expect(resolveStaticFile(FIXTURE_SITE_DIR, '/../static-server.spec.ts')).toBeNull();
+    expect(resolveStaticFile(FIXTURE_SITE_DIR, '/%2e%2e/%2e%2e/package.json')).toBeNull();
+    expect(resolveStaticFile(FIXTURE_SITE_DIR, '/images')).toBeNull();
+  });
+});
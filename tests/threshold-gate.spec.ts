@@ -0,0 +1,49 @@
+import { evaluateThresholds, GateInput } from '../src/utils/threshold-gate';
+import { productionConfig } from '../src/config/config.example';
+
+function makeReport(overrides: Partial<GateInput> = {}): GateInput {
+  return {
+    overallScore: 90,
+    performance: { loadTime: 1200, largestContentfulPaint: 1800 },
+    accessibility: [],
+    ...overrides,
+  };
+}
+
+describe('threshold gate', () => {
+  const thresholds = productionConfig.thresholds;
+
+  test('passes when every budget is met', () => {
+    const verdict = evaluateThresholds(makeReport(), thresholds);
+    expect(verdict.passed).toBe(true);
+    expect(verdict.breaches).toEqual([]);
+  });
+
+  test('reports each breached budget', () => {
+    const verdict = evaluateThresholds(makeReport({
+      overallScore: 50,
+      performance: { loadTime: 4000, largestContentfulPaint: 3000 },
+      accessibility: [{ severity: 'critical' }, { severity: 'serious' }, { severity: 'serious' }, { severity: 'serious' }],
+    }), thresholds);
+
+    expect(verdict.passed).toBe(false);
+    expect(verdict.breaches.map(b => b.metric)).toEqual([
+      'overallScore',
+      'loadTime',
+      'lcp',
+      'accessibility.critical',
+      'accessibility.serious',
+    ]);
+    expect(verdict.breaches[0]).toMatchObject({ actual: 50, limit: 80 });
+  });
+
+  test('treats values equal to the limit as within budget', () => {
+    const verdict = evaluateThresholds(makeReport({
+      overallScore: thresholds.overallScore,
+      performance: { loadTime: thresholds.loadTime, largestContentfulPaint: thresholds.lcp },
+      accessibility: [{ severity: 'serious' }, { severity: 'serious' }, { severity: 'moderate' }],
+    }), thresholds);
+
+    expect(verdict.passed).toBe(true);
+  });
+});
@@ -0,0 +1,22 @@
+import { CONFIG_ENVIRONMENTS, getConfig } from '../src/config/config.example';
+import { resolveThrottling, THROTTLING_PROFILES } from '../src/utils/throttling';
+
+describe('resolveThrottling', () => {
+  test('returns profile values with the CPU override applied', () => {
+    const settings = resolveThrottling({ profile: 'slow-4g' });
+    expect(settings).toEqual({ profile: 'slow-4g', ...THROTTLING_PROFILES['slow-4g'], applied: false });
+
+    expect(resolveThrottling({ profile: 'cable', cpuSlowdown: 2 })?.cpuSlowdown).toBe(2);
+  });
+
+  test('is off when unset or when nothing would be throttled', () => {
+    expect(resolveThrottling(undefined)).toBeNull();
+    expect(resolveThrottling({ profile: 'none' })).toBeNull();
+    expect(resolveThrottling({ profile: 'none', cpuSlowdown: 4 })?.cpuSlowdown).toBe(4);
+  });
+
+  test('no preset throttles unless asked to', () => {
+    // Presets gate on unthrottled load budgets; throttling is opt-in via --throttling or the config
+    CONFIG_ENVIRONMENTS.forEach(env => expect(getConfig(env).throttling).toBeUndefined());
+  });
+});
@@ -0,0 +1,124 @@
+import fs from 'fs';
+import path from 'path';
+import { UXUITester } from '../src/testers/ux-ui-tester';
+import { StaticServer } from '../src/utils/static-server';
+import { describeStep, JourneyStep, loadJourneyModule, resolveEnvValue, validateJourney } from '../src/utils/user-journey';
+import { aggregateSiteReport } from '../src/utils/site-crawler';
+import { describeWithBrowser, fixtureConfig, startFixtureSite } from './fixture-site';
+import { makeReport, makeResult } from './helpers';
+
+const LOGIN_JOURNEY = path.join(__dirname, 'fixtures', 'journeys', 'login-journey.ts');
+
+const isCheckpoint = (step: JourneyStep): step is Extract<JourneyStep, { action: 'checkpoint' }> => step.action === 'checkpoint';
+
+describe('user journey definitions', () => {
+  test('loads a journey module and validates its steps', () => {
+    const journey = loadJourneyModule(LOGIN_JOURNEY);
+    expect(journey.name).toBe('Sign in');
+    expect(journey.steps.filter(isCheckpoint).map(s => s.name)).toEqual(['Dashboard', 'Settings dialog']);
+
+    expect(() => validateJourney({ name: 'x', steps: [{ action: 'hover', selector: 'a' }] })).toThrow(/unknown action hover/);
+    expect(() => validateJourney({ name: 'x', steps: [{ action: 'fill', selector: '#a' }] })).toThrow(/missing value/);
+    expect(() => validateJourney({ name: 'x', steps: [{ action: 'waitFor' }] })).toThrow(/needs a selector or url/);
+    expect(() => validateJourney({ name: 'x', steps: [{ action: 'run', name: 'custom' }] })).toThrow(/missing fn/);
+    expect(() => validateJourney({
+      name: 'x',
+      steps: [{ action: 'checkpoint', name: 'A' }, { action: 'checkpoint', name: 'A' }],
+    })).toThrow(/duplicate checkpoint "A"/);
+  });
+
+  test('reads ${NAME} values from the environment', () => {
+    expect(resolveEnvValue('${USER_NAME}@example.com', { USER_NAME: 'qa' })).toBe('qa@example.com');
+    expect(resolveEnvValue('plain', {})).toBe('plain');
+    expect(() => resolveEnvValue('${MISSING_SECRET}', {})).toThrow(/MISSING_SECRET is not set/);
+  });
+
+  test('never prints fill values in step descriptions', () => {
+    expect(describeStep({ action: 'fill', selector: '#password', value: 'secret' })).toBe('fill #password');
+    expect(describeStep({ action: 'press', key: 'Enter', selector: '#q' })).toBe('press Enter in #q');
+    expect(describeStep({ action: 'waitFor', url: '**/done' })).toBe('waitFor **/done');
+  });
+
+  test('labels aggregated results with the checkpoint name', () => {
+    const checkpoint = (url: string) => makeReport({
+      url,
+      results: [makeResult(), makeResult({ category: 'Responsive Design', test: 'Mobile', page: url })],
+    });
+    const report = aggregateSiteReport('https://example.com/login', [
+      { report: checkpoint('https://example.com/app'), depth: 0, checkpoint: 'Dashboard' },
+      { report: checkpoint('https://example.com/app'), depth: 1, checkpoint: 'Settings dialog' },
+    ]);
+
+    // URL-level results keep the page they loaded
+    expect(report.results.map(r => r.page)).toEqual(['Dashboard', 'https://example.com/app', 'Settings dialog', 'https://example.com/app']);
+    expect(report.pages!.map(p => [p.checkpoint, p.url])).toEqual([['Dashboard', 'https://example.com/app'], ['Settings dialog', 'https://example.com/app']]);
+  });
+});
+
+describeWithBrowser('user journey against the fixture site', () => {
+  let server: StaticServer;
+
+  beforeAll(async () => {
+    server = await startFixtureSite();
+    process.env.FIXTURE_PASSWORD = 'fixture-password';
+  });
+
+  afterAll(async () => {
+    delete process.env.FIXTURE_PASSWORD;
+    await server?.close();
+  });
+
+  test('audits every checkpoint in the logged-in state', async () => {
+    const base = fixtureConfig(`${server.url}/login.html`);
+    const tester = new UXUITester({
+      ...base,
+      journey: loadJourneyModule(LOGIN_JOURNEY),
+      devices: [{ name: 'Desktop', width: 1280, height: 800 }],
+      tests: { ...base.tests, performance: false, readability: false, interactive: false, forms: false, responsive: true, accessibility: false, errorHandling: false, navigation: false },
+    });
+    tester.registerCheck({
+      name: 'session',
+      category: 'Journey',
+      run: async page => {
+        const greeting = await page.textContent('#greeting');
+        const dialogOpen = await page.isVisible('#settings-dialog');
+        return [{ test: 'Signed in', status: greeting === 'Dashboard' ? 'pass' : 'fail', score: 10, details: `${greeting}; dialog ${dialogOpen ? 'open' : 'closed'}` }];
+      },
+    });
+
+    const report = await tester.runAllTests();
+
+    expect(report.journey).toBe('Sign in');
+    expect(report.pages!.map(p => [p.checkpoint, new URL(p.url).pathname])).toEqual([
+      ['Dashboard', '/dashboard.html'],
+      ['Settings dialog', '/dashboard.html'],
+    ]);
+    expect(report.results.filter(r => r.test === 'Signed in').map(r => [r.page, r.status, r.details])).toEqual([
+      ['Dashboard', 'pass', 'Dashboard; dialog closed'],
+      ['Settings dialog', 'pass', 'Dashboard; dialog open'],
+    ]);
+    // Responsive checks reload the URL, so they are not attributed to the checkpoint state
+    const responsive = report.results.filter(r => r.category === 'Responsive Design');
+    expect(responsive.map(r => new URL(r.page!).pathname)).toEqual(['/dashboard.html', '/dashboard.html']);
+    expect(responsive[1].details).toContain('not the "Settings dialog" state');
+  });
+
+  test('keeps one visual baseline per checkpoint at the same URL', async () => {
+    const base = fixtureConfig(`${server.url}/login.html`);
+    const report = await new UXUITester({
+      ...base,
+      journey: loadJourneyModule(LOGIN_JOURNEY),
+      tests: { ...base.tests, performance: false, visualDesign: false, readability: false, interactive: false, forms: false, responsive: false, accessibility: false, errorHandling: false, navigation: false },
+      visualRegression: { enabled: true, baselineDir: path.join(base.outputDir, 'baselines') },
+    }).runAllTests();
+
+    expect(report.visual!.map(s => [s.checkpoint, s.key])).toEqual([
+      // The form submits with GET, so the query string is part of the page segment
+      ['Dashboard', 'dashboard.html-username-fixture-user--dashboard/chromium/desktop/full-page.png'],
+      ['Settings dialog', 'dashboard.html-username-fixture-user--settings-dialog/chromium/desktop/full-page.png'],
+    ]);
+    // Captured from the live page, so the open dialog is in the second snapshot only
+    const [dashboard, dialog] = report.visual!.map(s => fs.readFileSync(s.current));
+    expect(dashboard.equals(dialog)).toBe(false);
+  });
+});
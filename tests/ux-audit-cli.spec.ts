@@ -0,0 +1,176 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { parseArgs, buildConfig, main } from '../src/cli/ux-audit';
+import { EXIT_CODES } from '../src/utils/threshold-gate';
+
+describe('ux-audit CLI arguments', () => {
+  test('parses run with url, env, only, out and format', () => {
+    const options = parseArgs([
+      'run', 'https://example.com',
+      '--env', 'staging',
+      '--only', 'performance,accessibility',
+      '--out', './reports',
+      '--format', 'json,html,xlsx',
+    ]);
+
+    expect(options.command).toBe('run');
+    expect(options.url).toBe('https://example.com');
+    expect(options.env).toBe('staging');
+    expect(options.only).toEqual(['performance', 'accessibility']);
+    expect(options.outDir).toBe(path.resolve('./reports'));
+    expect(options.formats).toEqual(['json', 'html', 'xlsx']);
+  });
+
+  test('rejects unknown tests, formats and invalid urls', () => {
+    expect(() => parseArgs(['run', 'https://example.com', '--only', 'speed'])).toThrow(/Unknown test/);
+    expect(() => parseArgs(['run', 'https://example.com', '--format', 'pdf'])).toThrow(/Unknown format/);
+    expect(() => parseArgs(['run', 'not a url'])).toThrow(/Invalid URL/);
+    expect(() => parseArgs(['run'])).toThrow(/Missing <url>/);
+  });
+
+  test('rejects unknown env presets instead of falling back to production', () => {
+    expect(() => parseArgs(['run', 'https://example.com', '--env', 'stagng'])).toThrow(/Unknown environment for --env: stagng/);
+    expect(() => parseArgs(['run', 'https://example.com', '--env', 'constructor'])).toThrow(/Unknown environment/);
+  });
+
+  test('defaults to help when no command is given', () => {
+    expect(parseArgs([]).command).toBe('help');
+    expect(parseArgs(['run', 'https://example.com', '--help']).command).toBe('help');
+  });
+
+  test('buildConfig applies url, output dir and --only toggles over the env preset', () => {
+    const config = buildConfig(parseArgs(['run', 'https://example.com', '--env', 'staging', '--only', 'forms', '--out', 'out']));
+
+    expect(config.url).toBe('https://example.com');
+    expect(config.outputDir).toBe(path.resolve('out'));
+    expect(config.screenshotsDir).toBe(path.join(path.resolve('out'), 'screenshots'));
+    expect(config.tests.forms).toBe(true);
+    expect(config.tests.performance).toBe(false);
+    expect(config.thresholds.overallScore).toBe(70);
+  });
+
+  test('throttling options select a profile, CPU slowdown and run count', () => {
+    const options = parseArgs(['run', 'https://example.com', '--throttling', 'fast-3g', '--cpu-slowdown', '4', '--runs', '5']);
+
+    expect(options.throttling).toEqual({ profile: 'fast-3g', cpuSlowdown: 4 });
+    expect(buildConfig(options).performanceRuns).toBe(5);
+    expect(buildConfig(options).throttling).toEqual({ profile: 'fast-3g', cpuSlowdown: 4 });
+    expect(() => parseArgs(['run', 'https://example.com', '--throttling', '2g'])).toThrow(/Unknown throttling profile/);
+    expect(() => parseArgs(['run', 'https://example.com', '--throttling', 'constructor'])).toThrow(/Unknown throttling profile/);
+    expect(() => parseArgs(['run', 'https://example.com', '--throttling', 'toString'])).toThrow(/Unknown throttling profile/);
+  });
+
+  test('concurrency option sets the worker limit', () => {
+    expect(buildConfig(parseArgs(['run', 'https://example.com', '--concurrency', '4'])).concurrency).toBe(4);
+    expect(buildConfig(parseArgs(['run', 'https://example.com'])).concurrency).toBeUndefined();
+    expect(() => parseArgs(['run', 'https://example.com', '--concurrency', 'many'])).toThrow(/Invalid number/);
+  });
+
+  test('visual options enable visual regression and baseline updates', () => {
+    const config = buildConfig(parseArgs(['run', 'https://example.com', '--visual', 'baselines', '--update-baselines']));
+
+    expect(config.visualRegression).toEqual({ enabled: true, baselineDir: path.resolve('baselines'), updateBaselines: true });
+    expect(buildConfig(parseArgs(['run', 'https://example.com'])).visualRegression).toBeUndefined();
+    expect(() => buildConfig(parseArgs(['run', 'https://example.com', '--update-baselines']))).toThrow(/--update-baselines needs --visual/);
+  });
+
+  test('review and approve read a report with snapshot keys or --all', () => {
+    expect(parseArgs(['review'])).toMatchObject({ command: 'review', reportPath: path.resolve('outputs/ux-report/ux-report.json') });
+    expect(parseArgs(['approve', 'out/ux-report.json', 'index/chromium/*', '--visual', 'baselines'])).toMatchObject({
+      command: 'approve',
+      reportPath: path.resolve('out/ux-report.json'),
+      approveKeys: ['index/chromium/*'],
+      visualBaselineDir: path.resolve('baselines'),
+    });
+    expect(parseArgs(['approve', 'ux-report.json', '--all'])).toMatchObject({ approveAll: true, approveKeys: [] });
+    expect(() => parseArgs(['approve', 'ux-report.json'])).toThrow(/snapshot keys or --all/);
+    expect(() => parseArgs(['approve'])).toThrow(/requires <report.json>/);
+  });
+
+  test('HAR options select record or replay mode', () => {
+    expect(parseArgs(['run', 'https://example.com', '--record-har', 'snap.har']).har)
+      .toEqual({ mode: 'record', path: path.resolve('snap.har') });
+
+    const options = parseArgs(['run', 'https://example.com', '--replay-har', 'snap.har']);
+    expect(buildConfig(options).har).toEqual({ mode: 'replay', path: path.resolve('snap.har') });
+  });
+
+  test('check options load custom modules and disable checks by name', () => {
+    const options = parseArgs(['run', 'https://example.com', '--checks', 'brand.ts,legal.ts', '--disable-checks', 'seo-basics']);
+
+    expect(buildConfig(options).checks).toEqual({
+      modules: [path.resolve('brand.ts'), path.resolve('legal.ts')],
+      disable: ['seo-basics'],
+    });
+    expect(buildConfig(parseArgs(['run', 'https://example.com'])).checks).toBeUndefined();
+  });
+
+  test('--journey loads the journey module into the config', () => {
+    const options = parseArgs(['run', 'https://example.com/login', '--journey', 'tests/fixtures/journeys/login-journey.ts']);
+
+    expect(options.journeyPath).toBe(path.resolve('tests/fixtures/journeys/login-journey.ts'));
+    expect(buildConfig(options).journey!.name).toBe('Sign in');
+    expect(() => buildConfig(parseArgs(['run', 'https://example.com', '--journey', 'missing.ts']))).toThrow(/Could not load journey module/);
+  });
+
+  test('auth options are merged over the env preset', () => {
+    const options = parseArgs([
+      'run', 'https://staging.example.com',
+      '--env', 'staging',
+      '--storage-state', 'auth.json',
+      '--header', 'X-Env: staging',
+      '--header', 'X-Preview-Token: a,b',
+      '--cookie', 'session=abc',
+      '--http-credentials', 'qa:s3cret',
+    ]);
+    const auth = buildConfig(options).auth!;
+
+    expect(auth.storageState).toBe(path.resolve('auth.json'));
+    expect(auth.httpCredentials).toEqual({ username: 'qa', password: 's3cret' });
+    expect(auth.headers).toEqual({ 'X-Env': 'staging', 'X-Preview-Token': 'a,b' });
+    expect(auth.cookies).toEqual([{ name: 'session', value: 'abc' }]);
+    expect(parseArgs(['run', 'https://example.com', '--http-credentials', 'qa:pa:ss']).auth!.httpCredentials)
+      .toEqual({ username: 'qa', password: 'pa:ss' });
+  });
+
+  test('crawl options enable crawl mode with defaults', () => {
+    const options = parseArgs(['run', 'https://example.com', '--max-pages', '5', '--exclude', '/admin/*,/login', '--sitemap']);
+
+    expect(options.crawl).toEqual({
+      enabled: true,
+      maxPages: 5,
+      maxDepth: 2,
+      exclude: ['/admin/*', '/login'],
+      useSitemap: true,
+    });
+    expect(buildConfig(options).crawl).toBe(options.crawl);
+    expect(() => parseArgs(['run', 'https://example.com', '--max-depth', 'deep'])).toThrow(/Invalid number/);
+  });
+});
+
+describe('ux-audit CLI exit codes', () => {
+  let errorSpy: jest.SpyInstance;
+
+  beforeEach(() => {
+    errorSpy = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    errorSpy.mockRestore();
+  });
+
+  test('config errors exit with TOOL_ERROR instead of a failed budget', async () => {
+    await expect(main(['run', 'https://example.com', '--update-baselines'])).resolves.toBe(EXIT_CODES.TOOL_ERROR);
+    await expect(main(['run', 'https://example.com', '--journey', path.join(__dirname, 'missing-journey.ts')]))
+      .resolves.toBe(EXIT_CODES.TOOL_ERROR);
+    expect(errorSpy).toHaveBeenCalledWith(expect.stringMatching(/--update-baselines needs --visual/));
+  });
+
+  test('trends exits with TOOL_ERROR when the history cannot be read', async () => {
+    // A directory where the JSONL file should be cannot be read
+    const historyDir = fs.mkdtempSync(path.join(os.tmpdir(), 'ux-history-'));
+    await expect(main(['trends', '--history', historyDir])).resolves.toBe(EXIT_CODES.TOOL_ERROR);
+    expect(errorSpy).toHaveBeenCalledWith('💥 Could not read the run history:', expect.anything());
+  });
+});
@@ -0,0 +1,329 @@
+import { UXUITester, TestResult } from '../src/testers/ux-ui-tester';
+import { StaticServer } from '../src/utils/static-server';
+import { loadCheckModule } from '../src/utils/check-registry';
+import { describeWithBrowser, fixtureConfig, startFixtureSite, summarize } from './fixture-site';
+
+jest.setTimeout(60_000);
+
+describeWithBrowser('UXUITester checks against the fixture site', () => {
+  let server: StaticServer;
+  let tester: UXUITester;
+
+  beforeAll(async () => {
+    server = await startFixtureSite();
+    tester = new UXUITester(fixtureConfig(`${server.url}/good.html`, { budgets: { requestCounts: { total: 1 } } }));
+    await tester.initialize();
+  });
+
+  afterAll(async () => {
+    await tester?.cleanup();
+    await server?.close();
+  });
+
+  // Open a fixture page, run one check and return the results it added
+  async function check(page: string, run: (t: UXUITester) => Promise<void>): Promise<TestResult[]> {
+    await tester.openPage(`${server.url}/${page}`);
+    await run(tester);
+    return (await tester.generateReport()).results;
+  }
+
+  describe('testVisualHierarchy', () => {
+    test('passes a page with one H1, H2s and described images', async () => {
+      expect(summarize(await check('good.html', t => t.testVisualHierarchy()))).toEqual([
+        { category: 'Visual Design', test: 'H1 Heading', status: 'pass', score: 10, severity: 'medium', details: 'Found 1 H1 tag(s). Recommended: exactly 1' },
+        { category: 'Visual Design', test: 'Heading Hierarchy', status: 'pass', score: 10, severity: 'medium', details: 'Outline: h1 "Fixture Shop", h2 "Newsletter"' },
+        { category: 'Visual Design', test: 'Empty Headings', status: 'pass', score: 10, severity: 'low', details: 'No empty headings' },
+        { category: 'Visual Design', test: 'Hidden Headings', status: 'pass', score: 10, severity: 'low', details: 'All visible headings are exposed to assistive technology' },
+        { category: 'Visual Design', test: 'Image Alt Text', status: 'pass', score: 10, severity: 'low', details: '0 out of 1 images missing alt text' },
+      ]);
+    });
+
+    test('fails a page without an H1', async () => {
+      expect(summarize(await check('no-h1.html', t => t.testVisualHierarchy()))).toEqual([
+        { category: 'Visual Design', test: 'H1 Heading', status: 'fail', score: 0, severity: 'high', details: 'Found 0 H1 tag(s). Recommended: exactly 1' },
+        { category: 'Visual Design', test: 'Heading Hierarchy', status: 'pass', score: 10, severity: 'medium', details: 'Outline: h2 "Section heading without a page title"' },
+        { category: 'Visual Design', test: 'Empty Headings', status: 'pass', score: 10, severity: 'low', details: 'No empty headings' },
+        { category: 'Visual Design', test: 'Hidden Headings', status: 'pass', score: 10, severity: 'low', details: 'All visible headings are exposed to assistive technology' },
+        { category: 'Visual Design', test: 'Image Alt Text', status: 'pass', score: 10, severity: 'low', details: '0 out of 0 images missing alt text' },
+      ]);
+    });
+
+    test('validates the heading outline and records each offender', async () => {
+      const results = summarize(await check('heading-outline.html', t => t.testVisualHierarchy()));
+      expect(results.slice(0, 4)).toEqual([
+        { category: 'Visual Design', test: 'H1 Heading', status: 'fail', score: 0, severity: 'medium', details: 'Found 2 H1 tag(s) in different landmarks (banner, main). Recommended: exactly 1' },
+        {
+          category: 'Visual Design',
+          test: 'Heading Hierarchy',
+          status: 'warning',
+          score: 8,
+          severity: 'medium',
+          details: '1 skipped level(s): h2 → h4 "Deal of the day". Outline: h1 "Brand", h1 "Products", h2 "Featured", h4 "Deal of the day", h3 "", h3 "Reviews"',
+        },
+        { category: 'Visual Design', test: 'Empty Headings', status: 'fail', score: 7, severity: 'medium', details: '1 heading(s) without text: h3' },
+        { category: 'Visual Design', test: 'Hidden Headings', status: 'warning', score: 8, severity: 'medium', details: '1 visible heading(s) hidden from assistive technology: h2 "Decorative"' },
+      ]);
+
+      const selectors = tester['screenshotAnalyzer'].getProblemAreas().flatMap(area => area.issues.map(issue => `${area.test}: ${issue.selector}`));
+      expect(selectors).toEqual([
+        'H1 Heading: header > h1',
+        'H1 Heading: #main h1',
+        'Heading Hierarchy: #deal',
+        'Empty Headings: h3.spacer',
+        'Hidden Headings: #main > h2:nth-of-type(2)',
+      ]);
+    });
+
+    test('counts missing and empty alt attributes', async () => {
+      const results = summarize(await check('missing-alt.html', t => t.testVisualHierarchy()));
+      expect(results.find(r => r.test === 'Image Alt Text')).toEqual(
+        { category: 'Visual Design', test: 'Image Alt Text', status: 'fail', score: 6, severity: 'high', details: '2 out of 3 images missing alt text' }
+      );
+    });
+  });
+
+  describe('testColorContrast', () => {
+    test('passes readable text', async () => {
+      expect(summarize(await check('good.html', t => t.testColorContrast()))).toEqual([
+        { category: 'Visual Design', test: 'Color Contrast (WCAG AA)', status: 'pass', score: 10, severity: 'medium', details: 'All text has sufficient contrast' },
+      ]);
+    });
+
+    test('warns about each low-contrast text element', async () => {
+      const results = await check('low-contrast.html', t => t.testColorContrast());
+      expect(summarize(results)).toEqual([
+        { category: 'Visual Design', test: 'Color Contrast (WCAG AA)', status: 'warning', score: 8.5, severity: 'medium', details: '3 text elements have low contrast (< 4.5:1)' },
+      ]);
+      expect(results[0].recommendations).toHaveLength(3);
+    });
+  });
+
+  describe('testNavigation', () => {
+    test('passes a page with nav, home link and menu toggle', async () => {
+      expect(summarize(await check('good.html', t => t.testNavigation()))).toEqual([
+        { category: 'Navigation', test: 'Navigation Element', status: 'pass', score: 10, severity: 'high', details: 'Navigation element found' },
+        { category: 'Navigation', test: 'Logo/Home Link', status: 'pass', score: 10, severity: 'medium', details: 'Logo/home link found' },
+        { category: 'Navigation', test: 'Menu Items', status: 'pass', score: 10, severity: 'medium', details: 'Found 3 navigation links' },
+        { category: 'Navigation', test: 'Mobile Menu', status: 'pass', score: 10, severity: 'medium', details: 'Mobile menu button found' },
+      ]);
+    });
+
+    test('flags a page without navigation', async () => {
+      expect(summarize(await check('bare.html', t => t.testNavigation()))).toEqual([
+        { category: 'Navigation', test: 'Navigation Element', status: 'fail', score: 0, severity: 'high', details: 'No semantic navigation element found' },
+        { category: 'Navigation', test: 'Logo/Home Link', status: 'warning', score: 7, severity: 'medium', details: 'No clear home link found' },
+        { category: 'Navigation', test: 'Menu Items', status: 'fail', score: 5, severity: 'medium', details: 'Found 0 navigation links' },
+        { category: 'Navigation', test: 'Mobile Menu', status: 'warning', score: 7, severity: 'medium', details: 'No mobile menu button detected' },
+      ]);
+    });
+  });
+
+  describe('testReadability', () => {
+    test('passes 18px text with 1.6 line height', async () => {
+      expect(summarize(await check('good.html', t => t.testReadability()))).toEqual([
+        { category: 'Readability', test: 'Font Size', status: 'pass', score: 10, severity: 'medium', details: 'Minimum font size: 18.0px. Recommended: >= 16px' },
+        { category: 'Readability', test: 'Line Height', status: 'pass', score: 10, severity: 'low', details: 'Average line height: 1.60. Recommended: >= 1.5' },
+        { category: 'Readability', test: 'Text Overflow', status: 'pass', score: 10, severity: 'medium', details: 'No overflow detected' },
+      ]);
+    });
+
+    test('warns about small, cramped and clipped text', async () => {
+      expect(summarize(await check('dense-text.html', t => t.testReadability()))).toEqual([
+        { category: 'Readability', test: 'Font Size', status: 'warning', score: 4, severity: 'high', details: 'Minimum font size: 12.0px. Recommended: >= 16px' },
+        { category: 'Readability', test: 'Line Height', status: 'warning', score: 4, severity: 'low', details: 'Average line height: 1.20. Recommended: >= 1.5' },
+        { category: 'Readability', test: 'Text Overflow', status: 'warning', score: 7, severity: 'medium', details: '1 elements with horizontal overflow detected' },
+      ]);
+    });
+  });
+
+  describe('testCTAButtons', () => {
+    test('passes large, labelled CTAs above the fold', async () => {
+      const results = await check('good.html', t => t.testCTAButtons());
+      expect(summarize(results)).toEqual([
+        { category: 'Interactive Elements', test: 'Call-to-Action Buttons', status: 'pass', score: 10, severity: 'medium', details: 'Found 2 CTA buttons, 0 are too small, 0 not visible above fold' },
+      ]);
+      expect(results[0].recommendations).toBeUndefined();
+    });
+
+    test('recommends bigger, labelled CTAs', async () => {
+      const results = await check('tiny-targets.html', t => t.testCTAButtons());
+      expect(summarize(results)).toEqual([
+        { category: 'Interactive Elements', test: 'Call-to-Action Buttons', status: 'pass', score: 10, severity: 'high', details: 'Found 3 CTA buttons, 3 are too small, 0 not visible above fold' },
+      ]);
+      expect(results[0].recommendations).toEqual([
+        'Increase CTA button size to at least 80x40px for better touch targets',
+        'Ensure buttons are easily clickable on mobile devices (minimum 44x44px recommended)',
+        'Add proper aria-label attributes to all CTA buttons for accessibility',
+      ]);
+    });
+  });
+
+  describe('testKeyboardNavigation', () => {
+    test('counts focusable elements', async () => {
+      expect(summarize(await check('good.html', t => t.testKeyboardNavigation()))).toEqual([
+        { category: 'Accessibility', test: 'Keyboard Navigation', status: 'pass', score: 9, severity: 'medium', details: '9 focusable elements, 0 without visible focus, 0 with positive tabindex' },
+      ]);
+    });
+
+    test('flags positive tabindex values', async () => {
+      const results = await check('bare.html', t => t.testKeyboardNavigation());
+      expect(summarize(results)).toEqual([
+        { category: 'Accessibility', test: 'Keyboard Navigation', status: 'warning', score: 1, severity: 'medium', details: '1 focusable elements, 0 without visible focus, 1 with positive tabindex' },
+      ]);
+      expect(results[0].recommendations).toHaveLength(2);
+    });
+  });
+
+  describe('testSEOBasics', () => {
+    test('passes a page with description, title, canonical and JSON-LD', async () => {
+      expect(summarize(await check('good.html', t => t.testSEOBasics()))).toEqual([
+        { category: 'SEO', test: 'Meta Description', status: 'pass', score: 10, severity: 'low', details: 'Found (131 chars)' },
+        { category: 'SEO', test: 'Page Title', status: 'pass', score: 10, severity: 'low', details: '"Fixture Shop – Accessible Example Home Page..." (43 chars)' },
+        { category: 'SEO', test: 'Canonical Tag', status: 'pass', score: 10, severity: 'low', details: 'Canonical tag present' },
+        { category: 'SEO', test: 'Structured Data', status: 'pass', score: 10, severity: 'medium', details: 'JSON-LD structured data found' },
+      ]);
+    });
+
+    test('flags missing metadata', async () => {
+      expect(summarize(await check('bare.html', t => t.testSEOBasics()))).toEqual([
+        { category: 'SEO', test: 'Meta Description', status: 'fail', score: 7, severity: 'high', details: 'Missing meta description' },
+        { category: 'SEO', test: 'Page Title', status: 'pass', score: 7, severity: 'low', details: '"Bare..." (4 chars)' },
+        { category: 'SEO', test: 'Canonical Tag', status: 'warning', score: 7, severity: 'low', details: 'No canonical tag found' },
+        { category: 'SEO', test: 'Structured Data', status: 'warning', score: 5, severity: 'medium', details: 'No structured data detected' },
+      ]);
+    });
+  });
+
+  describe('testForms', () => {
+    test('passes a labelled form', async () => {
+      expect(summarize(await check('good.html', t => t.testForms()))).toEqual([
+        { category: 'Forms', test: 'Input Labels', status: 'pass', score: 10, severity: 'low', details: '1 out of 1 inputs have associated labels' },
+        { category: 'Forms', test: 'Required Fields', status: 'pass', score: 10, severity: 'low', details: '1 required fields marked' },
+        { category: 'Forms', test: 'Placeholder Text', status: 'pass', score: 10, severity: 'low', details: '1 inputs have placeholder text' },
+      ]);
+    });
+
+    test('fails inputs without an associated label', async () => {
+      expect(summarize(await check('unlabeled-inputs.html', t => t.testForms()))).toEqual([
+        { category: 'Forms', test: 'Input Labels', status: 'fail', score: 5, severity: 'high', details: '1 out of 4 inputs have associated labels' },
+        { category: 'Forms', test: 'Required Fields', status: 'pass', score: 10, severity: 'low', details: '0 required fields marked' },
+        { category: 'Forms', test: 'Placeholder Text', status: 'pass', score: 10, severity: 'low', details: '1 inputs have placeholder text' },
+      ]);
+    });
+
+    test('reports pages without forms', async () => {
+      expect(summarize(await check('bare.html', t => t.testForms()))).toEqual([
+        { category: 'Forms', test: 'Form Existence', status: 'pass', score: 10, severity: 'low', details: 'No forms found on this page' },
+      ]);
+    });
+  });
+
+  describe('testInteractiveElements', () => {
+    test('passes 44px touch targets', async () => {
+      expect(summarize(await check('good.html', t => t.testInteractiveElements()))).toEqual([
+        { category: 'Interactive Elements', test: 'Buttons', status: 'pass', score: 10, severity: 'low', details: 'Found 3 buttons' },
+        { category: 'Interactive Elements', test: 'Links', status: 'pass', score: 10, severity: 'low', details: 'Found 6 links (1 external)' },
+        { category: 'Interactive Elements', test: 'Touch Target Size', status: 'pass', score: 10, severity: 'medium', details: '0 buttons/links smaller than 44x44px' },
+      ]);
+    });
+
+    test('warns about tiny touch targets', async () => {
+      expect(summarize(await check('tiny-targets.html', t => t.testInteractiveElements()))).toEqual([
+        { category: 'Interactive Elements', test: 'Buttons', status: 'pass', score: 10, severity: 'low', details: 'Found 4 buttons' },
+        { category: 'Interactive Elements', test: 'Links', status: 'warning', score: 7, severity: 'low', details: 'Found 0 links (0 external)' },
+        { category: 'Interactive Elements', test: 'Touch Target Size', status: 'warning', score: 4, severity: 'high', details: '4 buttons/links smaller than 44x44px' },
+      ]);
+    });
+  });
+
+  describe('testResponsive', () => {
+    test('passes on desktop and mobile', async () => {
+      expect(summarize(await check('good.html', t => t.testResponsive()))).toEqual([
+        { category: 'Responsive Design', test: 'Desktop', status: 'pass', score: 10, severity: 'low', details: 'No issues detected' },
+        { category: 'Responsive Design', test: 'Mobile', status: 'pass', score: 10, severity: 'low', details: 'No issues detected' },
+      ]);
+    });
+
+    test('detects horizontal scrolling on mobile only', async () => {
+      const results = await check('mobile-overflow.html', t => t.testResponsive());
+      expect(summarize(results)).toEqual([
+        { category: 'Responsive Design', test: 'Desktop', status: 'pass', score: 10, severity: 'low', details: 'No issues detected' },
+        { category: 'Responsive Design', test: 'Mobile', status: 'warning', score: 7, severity: 'low', details: 'Horizontal scrollbar detected' },
+      ]);
+      const { responsive } = await tester.generateReport();
+      expect(responsive.map(r => [r.device, r.width, r.isMobile])).toEqual([['Desktop', 1280, false], ['Mobile', 390, true]]);
+    });
+  });
+
+  describe('testAccessibility', () => {
+    test('passes a page with landmarks, skip link and lang', async () => {
+      const results = summarize(await check('good.html', t => t.testAccessibility()));
+      expect(results.map(r => [r.test, r.status, r.score])).toEqual([
+        ['Keyboard Navigation', 'pass', 10],
+        ['Skip Link', 'pass', 10],
+        ['Language Attribute', 'pass', 10],
+        ['ARIA Landmarks', 'pass', 10],
+        ['Overall A11y Issues', 'pass', 10],
+      ]);
+      expect(results.find(r => r.test === 'ARIA Landmarks')!.details).toBe('Landmarks found: banner, navigation, main, contentinfo');
+      expect(results.find(r => r.test === 'Overall A11y Issues')!.details).toMatch(/\(0 critical\/serious\)$/);
+    });
+
+    test('flags low contrast found by axe', async () => {
+      const results = summarize(await check('low-contrast.html', t => t.testAccessibility()));
+      expect(results.find(r => r.test === 'color-contrast')).toMatchObject({ status: 'fail', score: 0, severity: 'high' });
+    });
+
+    test('flags a missing lang attribute and skip link', async () => {
+      const results = summarize(await check('bare.html', t => t.testAccessibility()));
+      expect(results.find(r => r.test === 'Language Attribute')).toEqual(
+        { category: 'Accessibility', test: 'Language Attribute', status: 'fail', score: 0, severity: 'high', details: 'Missing lang attribute on <html>' }
+      );
+      expect(results.find(r => r.test === 'Skip Link')).toMatchObject({ status: 'warning', score: 7 });
+      expect(results.find(r => r.test === 'ARIA Landmarks')).toMatchObject({ status: 'warning', score: 7, details: 'Landmarks found: ' });
+    });
+  });
+
+  describe('testErrorHandling', () => {
+    test('passes a clean page and a real 404 with a home link', async () => {
+      expect(summarize(await check('good.html', t => t.testErrorHandling()))).toEqual([
+        { category: 'Error Handling', test: 'Console Errors', status: 'pass', score: 10, severity: 'medium', details: 'No console errors detected' },
+        { category: 'Error Handling', test: '404 Page', status: 'pass', score: 10, severity: 'medium', details: 'Missing page returned HTTP 404 with a home link' },
+      ]);
+    });
+
+    test('reports console errors', async () => {
+      const results = summarize(await check('console-error.html', t => t.testErrorHandling()));
+      expect(results[0]).toEqual(
+        { category: 'Error Handling', test: 'Console Errors', status: 'warning', score: 7, severity: 'medium', details: '1 console error(s): fixture console error' }
+      );
+    });
+  });
+
+  describe('custom checks', () => {
+    test('run team checks from a module against the page', async () => {
+      const [brandLogo, footerLegal] = loadCheckModule(`${__dirname}/fixtures/checks/brand-checks.ts`);
+      const results = await check('good.html', async t => {
+        await t.runCheck(brandLogo);
+        await t.runCheck(footerLegal);
+      });
+      expect(results.map(r => [r.category, r.test, r.status, r.score])).toEqual([
+        ['Brand', 'Brand Logo', 'fail', 0],
+        ['Brand', 'Privacy Link', 'warning', 6],
+      ]);
+    });
+  });
+
+  describe('testPerformance', () => {
+    test('measures the page and evaluates budgets', async () => {
+      const results = await check('good.html', t => t.testPerformance());
+      const tests = results.map(r => r.test);
+      expect(tests).toEqual(expect.arrayContaining(['Time to First Byte', 'Page Load Time', 'Largest Contentful Paint', 'Total Page Size']));
+      expect(results.find(r => r.test === 'Time to First Byte')!.status).toBe('pass');
+      expect(results.find(r => r.test === 'Total Page Size')!.status).toBe('pass');
+      expect(summarize(results.filter(r => r.category === 'Performance Budget'))).toEqual([
+        expect.objectContaining({ test: 'total requests ≤ 1', status: 'fail', score: 5, details: expect.stringMatching(/^2 requests \(budget 1 requests\)/) }),
+      ]);
+    });
+  });
+});
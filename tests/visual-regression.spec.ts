@@ -0,0 +1,153 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { compareSnapshot, diffImages, RawImage, snapshotKey, snapshotResult, VisualSnapshot } from '../src/utils/visual-regression';
+import { UXUITester, defaultConfig } from '../src/testers/ux-ui-tester';
+import { StaticServer } from '../src/utils/static-server';
+import { describeWithBrowser, fixtureConfig, startFixtureSite } from './fixture-site';
+
+type RGB = [number, number, number];
+const WHITE: RGB = [255, 255, 255];
+const RED: RGB = [255, 0, 0];
+
+/**
+ * RGBA image where paint(x, y) decides each pixel colour
+ */
+function image(width: number, height: number, paint: (x: number, y: number) => RGB = () => WHITE): RawImage {
+  const data = new Uint8Array(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      data.set([...paint(x, y), 255], (y * width + x) * 4);
+    }
+  }
+  return { width, height, data };
+}
+
+const tmpDir = () => fs.mkdtempSync(path.join(os.tmpdir(), 'ux-visual-'));
+
+describe('diffImages', () => {
+  const block = (x: number, y: number): RGB => (x >= 4 && x <= 6 && y >= 4 && y <= 6 ? RED : WHITE);
+
+  test('counts changed pixels and paints them red in the diff image', () => {
+    const result = diffImages(image(10, 10), image(10, 10, block));
+
+    expect(result.diffPixels).toBe(9);
+    expect(result.diffRatio).toBeCloseTo(0.09);
+    expect(result.sizeChanged).toBe(false);
+    expect(Array.from(result.diff.data.slice((5 * 10 + 5) * 4, (5 * 10 + 5) * 4 + 4))).toEqual([255, 0, 0, 255]);
+    expect(diffImages(image(10, 10), image(10, 10)).diffPixels).toBe(0);
+  });
+
+  test('tolerates anti-aliased edges unless asked not to', () => {
+    // Black | grey edge | white, where only the edge shade changes
+    const edge = (shade: number) => image(6, 5, x => (x < 3 ? [0, 0, 0] : x === 3 ? [shade, shade, shade] : WHITE));
+
+    const tolerant = diffImages(edge(180), edge(60));
+    expect(tolerant.diffPixels).toBe(0);
+    expect(tolerant.antiAliasedPixels).toBe(5);
+
+    expect(diffImages(edge(180), edge(60), { includeAntiAliasing: true }).diffPixels).toBe(5);
+  });
+
+  test('skips ignore regions and respects the colour threshold', () => {
+    expect(diffImages(image(10, 10), image(10, 10, block), { ignoreRegions: [{ x: 3, y: 3, width: 5, height: 5 }] }).diffPixels).toBe(0);
+
+    const offWhite = image(10, 10, () => [250, 250, 250]);
+    expect(diffImages(image(10, 10), offWhite).diffPixels).toBe(0);
+    expect(diffImages(image(10, 10), offWhite, { threshold: 0.01 }).diffPixels).toBe(100);
+  });
+
+  test('treats pixels outside the smaller image as changed', () => {
+    const result = diffImages(image(4, 4), image(4, 6));
+
+    expect(result.sizeChanged).toBe(true);
+    expect(result.diffPixels).toBe(8);
+    expect(result.diff.height).toBe(6);
+  });
+});
+
+describe('snapshots', () => {
+  test('keys by page path, browser, device and name', () => {
+    expect(snapshotKey('https://staging.example.com/', 'chromium', 'Mobile iPhone 12', 'full-page'))
+      .toBe('index/chromium/mobile-iphone-12/full-page.png');
+    expect(snapshotKey('https://example.com/blog/post?id=3#top', 'webkit', 'Desktop', 'Site Header'))
+      .toBe('blog-post-id-3/webkit/desktop/site-header.png');
+    // Journey checkpoints at the same URL get their own baselines
+    expect(snapshotKey('https://example.com/dashboard.html', 'chromium', 'Desktop', 'full-page', 'Dashboard'))
+      .toBe('dashboard.html--dashboard/chromium/desktop/full-page.png');
+    expect(snapshotKey('https://example.com/dashboard.html', 'chromium', 'Desktop', 'full-page', 'Settings dialog'))
+      .toBe('dashboard.html--settings-dialog/chromium/desktop/full-page.png');
+  });
+
+  test('new captures wait for approval unless baselines are being updated', async () => {
+    const baselineDir = tmpDir();
+    const outDir = tmpDir();
+    const capture = Buffer.from('png bytes');
+    const snapshot = { page: 'https://example.com/pricing', device: 'Desktop', name: 'full-page', browser: 'chromium' as const };
+
+    const pending = await compareSnapshot(capture, snapshot, { enabled: true, baselineDir }, outDir);
+    expect(pending).toMatchObject({ key: 'pricing/chromium/desktop/full-page.png', status: 'new', diffPixels: 0 });
+    expect(fs.readFileSync(pending.current)).toEqual(capture);
+    expect(fs.existsSync(pending.baseline)).toBe(false);
+
+    const approved = await compareSnapshot(capture, snapshot, { enabled: true, baselineDir, updateBaselines: true }, outDir);
+    expect(approved.status).toBe('updated');
+    expect(fs.readFileSync(path.join(baselineDir, approved.key))).toEqual(capture);
+  });
+
+  test('turns comparisons into Visual Regression results', () => {
+    const base: VisualSnapshot = {
+      key: 'index/chromium/desktop/full-page.png', page: 'https://example.com/', device: 'Desktop', name: 'full-page',
+      browser: 'chromium', status: 'match', baseline: 'b.png', current: 'c.png', diffPixels: 12, diffRatio: 0.0001,
+    };
+
+    expect(snapshotResult(base)).toEqual({ test: 'Desktop · full-page', status: 'pass', score: 10, details: 'Matches baseline (0.010% pixels differ)', severity: 'low' });
+    expect(snapshotResult({ ...base, status: 'new' }).status).toBe('warning');
+    expect(snapshotResult({ ...base, status: 'changed', diffPixels: 900, diffRatio: 0.01, diff: 'd.png' })).toMatchObject({
+      status: 'fail', score: 5, severity: 'medium', details: '1.000% pixels differ (900 px); diff: d.png',
+    });
+    expect(snapshotResult({ ...base, status: 'changed', sizeChanged: true })).toMatchObject({ score: 2, severity: 'high' });
+  });
+});
+
+describeWithBrowser('visual regression against the fixture site', () => {
+  let server: StaticServer;
+
+  beforeAll(async () => {
+    server = await startFixtureSite();
+  });
+
+  afterAll(async () => {
+    await server.close();
+  });
+
+  const audit = (page: string, visualRegression: NonNullable<typeof defaultConfig.visualRegression>) =>
+    new UXUITester(fixtureConfig(`${server.url}/${page}`, {
+      devices: [{ name: 'Desktop', width: 1280, height: 800 }],
+      tests: { ...defaultConfig.tests, performance: false, visualDesign: false, navigation: false, readability: false, forms: false, interactive: false, responsive: false, accessibility: false, errorHandling: false },
+      visualRegression,
+    })).runAllTests();
+
+  test('records, matches and detects changed snapshots', async () => {
+    const baselineDir = tmpDir();
+    const visual = { enabled: true, baselineDir, components: [{ name: 'nav', selector: 'nav' }, { name: 'promo', selector: '.promo' }] };
+
+    const first = await audit('good.html', visual);
+    expect(first.visual!.map(s => [s.name, s.status])).toEqual([['full-page', 'new'], ['nav', 'new']]);
+    expect(first.results.find(r => r.test === 'Desktop · promo')).toMatchObject({ status: 'warning', details: 'Component not found: .promo' });
+
+    await audit('good.html', { ...visual, updateBaselines: true });
+    const second = await audit('good.html', visual);
+    expect(second.visual!.map(s => s.status)).toEqual(['match', 'match']);
+
+    // Use the good page as the approved look of another page
+    const key = snapshotKey(`${server.url}/low-contrast.html`, 'chromium', 'Desktop', 'full-page');
+    fs.mkdirSync(path.dirname(path.join(baselineDir, key)), { recursive: true });
+    fs.copyFileSync(path.join(baselineDir, second.visual![0].key), path.join(baselineDir, key));
+
+    const changed = await audit('low-contrast.html', { enabled: true, baselineDir });
+    expect(changed.visual![0].status).toBe('changed');
+    expect(fs.existsSync(changed.visual![0].diff!)).toBe(true);
+    expect(changed.results.find(r => r.category === 'Visual Regression')!.status).toBe('fail');
+  });
+});
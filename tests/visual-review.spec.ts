@@ -0,0 +1,152 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { UXReport } from '../src/testers/ux-ui-tester';
+import { VisualSnapshot } from '../src/utils/visual-regression';
+import { ReportHTMLGenerator } from '../src/utils/report-html-generator';
+import {
+  approveSnapshots,
+  generateReviewHTML,
+  pendingSnapshots,
+  reviewPaths,
+  selectSnapshots,
+  VISUAL_REVIEW_FILE,
+  writeReviewPage,
+} from '../src/utils/visual-review';
+
+const tmpDir = () => fs.mkdtempSync(path.join(os.tmpdir(), 'ux-review-'));
+
+function snapshot(key: string, status: VisualSnapshot['status'], baselineDir: string, extra: Partial<VisualSnapshot> = {}): VisualSnapshot {
+  const [, browser, device, file] = key.split('/');
+  return {
+    key,
+    page: 'https://example.com/',
+    device,
+    name: file.replace(/\.png$/, ''),
+    browser: browser as VisualSnapshot['browser'],
+    status,
+    baseline: path.join(baselineDir, key),
+    current: path.join('/old/run/visual/current', key),
+    diffPixels: status === 'changed' ? 120 : 0,
+    diffRatio: status === 'changed' ? 0.012 : 0,
+    ...extra,
+  };
+}
+
+/**
+ * Report folder with a capture written for every snapshot
+ */
+function makeRun(snapshots: (baselineDir: string) => VisualSnapshot[]) {
+  const reportDir = tmpDir();
+  const baselineDir = tmpDir();
+  const visual = snapshots(baselineDir);
+  visual.forEach(s => {
+    const current = path.join(reportDir, 'visual', 'current', s.key);
+    fs.mkdirSync(path.dirname(current), { recursive: true });
+    fs.writeFileSync(current, `capture of ${s.key}`);
+  });
+  const report = { url: 'https://example.com/', results: [], visual } as unknown as UXReport;
+  return { report, reportDir, baselineDir };
+}
+
+const run = () => makeRun(dir => [
+  snapshot('index/chromium/desktop/full-page.png', 'match', dir),
+  snapshot('index/chromium/desktop/header.png', 'changed', dir, { diff: '/old/run/visual/diff/index/chromium/desktop/header.png' }),
+  snapshot('index/chromium/mobile/full-page.png', 'new', dir),
+]);
+
+describe('visual review', () => {
+  test('lists changed and new snapshots with paths inside the report folder', () => {
+    const { report, reportDir } = run();
+    const pending = pendingSnapshots(report);
+
+    expect(pending.map(s => s.status)).toEqual(['changed', 'new']);
+    expect(reviewPaths(pending[0], reportDir)).toEqual({
+      baseline: path.join(reportDir, 'visual', 'baseline', 'index/chromium/desktop/header.png'),
+      current: path.join(reportDir, 'visual', 'current', 'index/chromium/desktop/header.png'),
+      diff: path.join(reportDir, 'visual', 'diff', 'index/chromium/desktop/header.png'),
+    });
+    expect(reviewPaths(pending[1], reportDir).baseline).toBeUndefined();
+  });
+
+  test('selects snapshots by key or glob and rejects keys that match nothing', () => {
+    const { report } = run();
+    const pending = pendingSnapshots(report);
+
+    expect(selectSnapshots(pending, { keys: ['index/chromium/desktop/header'] }).map(s => s.name)).toEqual(['header']);
+    expect(selectSnapshots(pending, { keys: ['index/*/mobile/*'] }).map(s => s.device)).toEqual(['mobile']);
+    expect(selectSnapshots(pending, { all: true })).toHaveLength(2);
+    // Matching snapshots are not waiting for review
+    expect(() => selectSnapshots(pending, { keys: ['index/chromium/desktop/full-page.png'] })).toThrow(/No changed snapshot matches/);
+    expect(() => selectSnapshots(pending, {})).toThrow(/Nothing to approve/);
+  });
+
+  test('approve copies the captures into the baseline set and marks them updated', () => {
+    const { report, reportDir, baselineDir } = run();
+
+    const approved = approveSnapshots(report, reportDir, { keys: ['*/header'] });
+
+    expect(approved).toHaveLength(1);
+    expect(fs.readFileSync(path.join(baselineDir, 'index/chromium/desktop/header.png'), 'utf-8'))
+      .toBe('capture of index/chromium/desktop/header.png');
+    expect(report.visual!.map(s => s.status)).toEqual(['match', 'updated', 'new']);
+    expect(pendingSnapshots(report)).toHaveLength(1);
+  });
+
+  test('approve also updates the copies in the page and browser reports', () => {
+    const { report, reportDir } = run();
+    const copy = () => report.visual!.map(s => ({ ...s }));
+    const page = { url: 'https://example.com/', results: [], visual: copy() } as unknown as UXReport;
+    report.pageReports = [page];
+    report.browserReports = [{ ...page, visual: copy(), pageReports: [{ ...page, visual: copy() }] }];
+
+    approveSnapshots(report, reportDir, { keys: ['*/header'] });
+
+    const statuses = (r: UXReport) => r.visual!.map(s => s.status);
+    expect(statuses(report.pageReports[0])).toEqual(['match', 'updated', 'new']);
+    expect(statuses(report.browserReports[0])).toEqual(['match', 'updated', 'new']);
+    expect(statuses(report.browserReports[0].pageReports![0])).toEqual(['match', 'updated', 'new']);
+    expect(report.pageReports[0].visual![1].baseline).toBe(report.visual![1].baseline);
+  });
+
+  test('approve can write to another baseline directory', () => {
+    const { report, reportDir } = run();
+    const otherDir = tmpDir();
+
+    approveSnapshots(report, reportDir, { all: true, baselineDir: otherDir });
+
+    expect(fs.existsSync(path.join(otherDir, 'index/chromium/mobile/full-page.png'))).toBe(true);
+    expect(report.visual![2].baseline).toBe(path.join(otherDir, 'index/chromium/mobile/full-page.png'));
+  });
+
+  test('approve fails when the capture is missing from the report folder', () => {
+    const { report } = run();
+
+    expect(() => approveSnapshots(report, tmpDir(), { all: true })).toThrow(/Capture not found/);
+  });
+
+  test('review page shows side-by-side and slider views for changed snapshots', () => {
+    const { report, reportDir } = run();
+
+    const html = generateReviewHTML(pendingSnapshots(report), 'out/ux-report.json');
+
+    expect(html).toContain('value="index/chromium/desktop/header.png"');
+    expect(html).toContain('src="./visual/baseline/index/chromium/desktop/header.png"');
+    expect(html).toContain('src="./visual/diff/index/chromium/desktop/header.png"');
+    expect(html).toContain('"ux-audit approve out/ux-report.json"');
+    // Only the changed snapshot has a baseline to slide against
+    expect(html.match(/class="view slider"/g)).toHaveLength(1);
+    expect(html).not.toContain('./visual/baseline/index/chromium/mobile/full-page.png');
+
+    const file = writeReviewPage(report, reportDir);
+    expect(file).toBe(path.join(reportDir, VISUAL_REVIEW_FILE));
+    expect(generateReviewHTML([])).toContain('Every snapshot matches its baseline');
+  });
+
+  test('the report links to the review page only while snapshots are pending', () => {
+    const { report } = run();
+
+    expect(ReportHTMLGenerator.generateVisualRegressionSection(report.visual!)).toContain(`href="./${VISUAL_REVIEW_FILE}"`);
+    expect(ReportHTMLGenerator.generateVisualRegressionSection(report.visual!.slice(0, 1))).not.toContain(VISUAL_REVIEW_FILE);
+  });
+});
@@ -0,0 +1,38 @@
+import { computeCLS, computeINP, LayoutShiftRecord } from '../src/utils/web-vitals';
+
+const shift = (startTime: number, value: number, hadRecentInput = false): LayoutShiftRecord => ({
+  value,
+  startTime,
+  hadRecentInput,
+  sources: [{ selector: `#s${startTime}`, previousRect: { x: 0, y: 0, width: 10, height: 10 }, currentRect: { x: 0, y: 40, width: 10, height: 10 } }],
+});
+
+describe('web vitals', () => {
+  test('CLS is the largest session window and ignores shifts after input', () => {
+    const result = computeCLS([
+      shift(100, 0.05),
+      shift(600, 0.05),
+      shift(3000, 0.08),          // gap > 1s starts a new window
+      shift(3200, 0.5, true),     // caused by user input
+    ]);
+
+    expect(result.value).toBe(0.1);
+    expect(result.shifts.map(s => s.startTime)).toEqual([100, 600]);
+    expect(computeCLS([]).value).toBe(0);
+  });
+
+  test('INP uses the longest event of each interaction and reports the slowest', () => {
+    const result = computeINP([
+      { name: 'pointerdown', interactionId: 1, duration: 40, startTime: 10, target: 'button.menu' },
+      { name: 'click', interactionId: 1, duration: 120, startTime: 12, target: 'button.menu' },
+      { name: 'click', interactionId: 2, duration: 64, startTime: 900, target: 'a.cta' },
+      { name: 'mousemove', interactionId: 0, duration: 400, startTime: 5, target: 'body' },
+    ]);
+
+    expect(result.value).toBe(120);
+    expect(result.interactions).toEqual([
+      { type: 'click', target: 'button.menu', duration: 120 },
+      { type: 'click', target: 'a.cta', duration: 64 },
+    ]);
+  });
+});
@@ -0,0 +1,137 @@
+import { WorkerPool } from '../src/utils/worker-pool';
+import { UXUITester } from '../src/testers/ux-ui-tester';
+import { StaticServer } from '../src/utils/static-server';
+import { describeWithBrowser, fixtureConfig, startFixtureSite, summarize } from './fixture-site';
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Task that records how many tasks were running at its peak
+ */
+function tracker() {
+  let running = 0;
+  const stats = { peak: 0 };
+  const task = async <T>(value: T, ms: number = 5): Promise<T> => {
+    running++;
+    stats.peak = Math.max(stats.peak, running);
+    await delay(ms);
+    running--;
+    return value;
+  };
+  return { stats, task };
+}
+
+describe('WorkerPool', () => {
+  test('never runs more tasks than the concurrency limit and keeps result order', async () => {
+    const pool = new WorkerPool(3);
+    const { stats, task } = tracker();
+
+    const results = await Promise.all([1, 2, 3, 4, 5, 6, 7].map((n, i) => pool.run(() => task(n * 10, 10 - i))));
+
+    expect(results).toEqual([10, 20, 30, 40, 50, 60, 70]);
+    expect(stats.peak).toBe(3);
+  });
+
+  test('treats invalid limits as sequential', async () => {
+    expect(new WorkerPool(0).concurrency).toBe(1);
+    expect(new WorkerPool(NaN).concurrency).toBe(1);
+    expect(new WorkerPool(2.7).concurrency).toBe(2);
+
+    const { stats, task } = tracker();
+    const sequential = new WorkerPool(1);
+    await Promise.all([1, 2, 3].map(n => sequential.run(() => task(n))));
+    expect(stats.peak).toBe(1);
+  });
+
+  test('spreads nested work over idle slots without deadlocking', async () => {
+    const pool = new WorkerPool(4);
+    const { stats, task } = tracker();
+
+    // Two pages hold two slots; their devices can only borrow the two idle ones
+    const pages = await Promise.all(['a', 'b'].map(page => pool.run(() =>
+      pool.spread(['desktop', 'tablet', 'mobile'], device => task(`${page}:${device}`, 10))
+    )));
+
+    expect(pages).toEqual([
+      ['a:desktop', 'a:tablet', 'a:mobile'],
+      ['b:desktop', 'b:tablet', 'b:mobile'],
+    ]);
+    expect(stats.peak).toBeGreaterThan(2);
+    expect(stats.peak).toBeLessThanOrEqual(4);
+
+    // With every slot busy the caller does the work itself
+    const sequential = new WorkerPool(1);
+    expect(await sequential.run(() => sequential.spread([1, 2, 3], n => task(n)))).toEqual([1, 2, 3]);
+  });
+
+  test('frees slots when tasks fail', async () => {
+    const pool = new WorkerPool(1);
+
+    await expect(pool.run(async () => { throw new Error('boom'); })).rejects.toThrow('boom');
+    await expect(pool.spread([1, 2], async n => {
+      if (n === 2) throw new Error(`device ${n}`);
+      return n;
+    })).rejects.toThrow('device 2');
+    await expect(pool.run(async () => 'next')).resolves.toBe('next');
+  });
+});
+
+describeWithBrowser('parallel crawl', () => {
+  let site: StaticServer;
+
+  beforeAll(async () => {
+    site = await startFixtureSite();
+  });
+
+  afterAll(async () => {
+    await site.close();
+  });
+
+  const crawl = async (concurrency: number, performance: boolean = false) => {
+    const tester = new UXUITester(fixtureConfig(`${site.url}/good.html`, {
+      concurrency,
+      tests: {
+        performance, visualDesign: true, navigation: false, readability: false, forms: true,
+        interactive: false, responsive: true, accessibility: false, errorHandling: false,
+      },
+      crawl: { enabled: true, maxPages: 4, maxDepth: 1 },
+    }));
+    return tester.runAllTests();
+  };
+
+  test('audits the same pages in the same order as a sequential crawl', async () => {
+    const sequential = await crawl(1);
+    const parallel = await crawl(3);
+
+    expect(parallel.pages!.map(p => p.url)).toEqual(sequential.pages!.map(p => p.url));
+    expect(summarize(parallel.results)).toEqual(summarize(sequential.results));
+    expect(parallel.responsive.map(r => r.device)).toEqual(sequential.responsive.map(r => r.device));
+  });
+
+  test('measures page loads one at a time while other pages are audited', async () => {
+    const prototype = UXUITester.prototype as any;
+    const measurePageLoad = prototype.measurePageLoad;
+    let running = 0;
+    let peak = 0;
+    const spy = jest.spyOn(prototype, 'measurePageLoad').mockImplementation(async function (this: UXUITester, ...args: unknown[]) {
+      running++;
+      peak = Math.max(peak, running);
+      try {
+        return await measurePageLoad.apply(this, args);
+      } finally {
+        running--;
+      }
+    });
+
+    try {
+      const sequential = await crawl(1, true);
+      const parallel = await crawl(3, true);
+
+      expect(peak).toBe(1);
+      const resources = (report: typeof sequential) => report.pageReports!.map(r => [r.url, r.performance.requestCount, r.performance.totalSize]);
+      expect(resources(parallel)).toEqual(resources(sequential));
+    } finally {
+      spy.mockRestore();
+    }
+  });
+});